@@ -2,13 +2,37 @@ import 'dotenv/config';
 import crypto from 'crypto';
 import express from 'express';
 
-import { decodeBolt11Strict } from './lib/invoices.js';
-import { b64url, normalizeStarknet, normalizePaymentHash } from './lib/utils.js';
-import { DATA_FILE, PORT, TAG_SECRET, MSATS_PER_SAT, nowIso } from './lib/config.js';
+import { cancelReceiveInvoice, decodePaymentRequest } from './lib/invoices.js';
+import { b64url, normalizeStarknet, normalizePaymentHash, parseMsat, parsePositiveSats } from './lib/utils.js';
+import {
+  DATA_FILE,
+  PORT,
+  MSATS_PER_SAT,
+  LN_BATCH_MAX_PAYMENTS,
+  INVOICE_MIN_TTL_SECONDS,
+  INVOICE_MAX_TTL_SECONDS,
+  INVOICE_MEMO_MAX_BYTES,
+  nowIso,
+} from './lib/config.js';
 import { getDB, saveDB, reloadDB } from './lib/localStore.js';
 import { clnCall } from './lib/cln.js';
-import { processPaymentRequest } from './lib/paymentProcessor.js';
-import { listPaymentsByStarknetAddress, listInvoicesByStarknetAddress } from './lib/localStoreHelpers.js';
+import { acceptPaymentRequest, cancelFailedPayment, isPaymentInflight, processPaymentRequest, runPaymentRequest } from './lib/paymentProcessor.js';
+import { readEscrowPosition } from './lib/starknet.js';
+import { createRoutingQuote } from './lib/quotes.js';
+import { createReceiveOffer, decodeOffer, fetchOfferInvoice, listOffersByStarknetAddress } from './lib/offers.js';
+import { getPaymentByHash, listPaymentsByStarknetAddress, listInvoicesByStarknetAddress, recordEscrowRefund } from './lib/localStoreHelpers.js';
+import { buildAttributionBlob, getOrCreateUserId } from './lib/attribution.js';
+import { verifySignedRequest } from './lib/requestAuth.js';
+import {
+  buildPayRequest,
+  claimUsername,
+  createPayRequestInvoice,
+  getUsernameForAddress,
+  lightningAddressFor,
+  normalizeUsername,
+  releaseUsername,
+  resolvePublicBaseUrl,
+} from './lib/lightningAddress.js';
 
 class ProcessingError extends Error {
   constructor(status, code, message, details = undefined) {
@@ -22,11 +46,21 @@ class ProcessingError extends Error {
 // ---------- FILE "DB" (single-process) ----------
 const DB = getDB();
 
+// Body returned for a settled payment: the preimage is the proof, the stored receipt adds context
+function payResultBody(normalizedPaymentHash, result) {
+  const status = result?.lightning?.status || result.status || 'unknown';
+  const proof = result?.lightning?.payment_preimage
+    ? { lightning_preimage: result.lightning.payment_preimage, payment_hash: `0x${normalizedPaymentHash}` }
+    : undefined;
+  const receipt = getPaymentByHash(normalizedPaymentHash)?.receipt;
+  return { status, ...(proof ? { proof } : {}), ...(receipt ? { receipt } : {}) };
+}
+
 // ---------- APP ----------// ---------- APP ----------
 const app = express();
 app.use((req, res, next) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
   if (req.method === 'OPTIONS') return res.sendStatus(204);
   next();
@@ -34,84 +68,276 @@ app.use((req, res, next) => {
 app.use(express.json());
 
 // POST /invoice  -> get-or-create user_id by Starknet address, create BOLT11
+// Leave out amount_sat for an open-amount invoice; the monitor credits whatever CLN reports as received.
+// `memo` becomes the payer-visible description (only its hash with private_desc); the attribution
+// tag lives on the local invoice record, never in the description.
 app.post('/invoice', async (req, res) => {
   try {
     reloadDB();
-    const { starknet_address, amount_sat, ttl_seconds = 600, private_desc = false } = req.body || {};
+    const { starknet_address, amount_sat, ttl_seconds = 600, private_desc = false, memo = '' } = req.body || {};
     const addr = normalizeStarknet(starknet_address);
     if (!addr) throw new Error('invalid starknet_address (expect 0x-prefixed hex)');
-    if (amount_sat === undefined || amount_sat === null) throw new Error('amount_sat is required');
-
-    let amountSatBigInt;
-    try {
-      if (typeof amount_sat === 'bigint') amountSatBigInt = amount_sat;
-      else if (typeof amount_sat === 'number') { if (!Number.isInteger(amount_sat)) throw 0; amountSatBigInt = BigInt(amount_sat); }
-      else if (typeof amount_sat === 'string') { const t = amount_sat.trim(); if (!/^\d+$/.test(t)) throw 0; amountSatBigInt = BigInt(t); }
-      else throw 0;
-    } catch {
-      throw new Error('amount_sat must be a positive integer value');
-    }
-    if (amountSatBigInt <= 0n) throw new Error('amount_sat must be greater than zero');
-
-    // Get-or-create random user_id for this address
-    let user_id_b64;
-    if (DB.addresses[addr]?.user_id_b64) user_id_b64 = DB.addresses[addr].user_id_b64;
-    else {
-      const user_id = crypto.randomBytes(32);
-      user_id_b64 = b64url(user_id);
-      DB.users[user_id_b64] = { created_at: Date.now() };
-      DB.addresses[addr] = { user_id_b64, added_at: Date.now(), active: 1 };
-      saveDB();
+    const amountless = amount_sat === undefined || amount_sat === null || amount_sat === '';
+    const amountSatBigInt = amountless ? null : parsePositiveSats(amount_sat);
+    const ttlSeconds = Number(ttl_seconds);
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < INVOICE_MIN_TTL_SECONDS || ttlSeconds > INVOICE_MAX_TTL_SECONDS) {
+      throw new Error(`ttl_seconds must be a whole number between ${INVOICE_MIN_TTL_SECONDS} and ${INVOICE_MAX_TTL_SECONDS}`);
     }
-    const user_id = Buffer.from(user_id_b64.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((user_id_b64.length + 3) % 4), 'base64');
+    if (typeof memo !== 'string') throw new Error('memo must be a string');
+    const description = memo.trim();
+    if (Buffer.byteLength(description, 'utf8') > INVOICE_MEMO_MAX_BYTES) throw new Error(`memo must be at most ${INVOICE_MEMO_MAX_BYTES} bytes`);
+    const privateDesc = private_desc === true;
+
+    const { userIdB64: user_id_b64, created } = getOrCreateUserId(DB, addr);
+    if (created) saveDB();
 
-    const version = Buffer.from([1]);
     const nonce = crypto.randomBytes(12);
     const nonce_b64 = b64url(nonce);
     if (DB.nonces[nonce_b64]) throw new Error('nonce collision (very unlikely)—retry');
-    const tag = crypto.createHmac('sha256', TAG_SECRET).update(Buffer.concat([version, user_id, nonce])).digest();
-    const blob = Buffer.concat([version, user_id, nonce, tag]);
+    const blob = buildAttributionBlob(user_id_b64, nonce);
 
     const label = `inv-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
-    const amountSatString = amountSatBigInt.toString();
-    const params = { amount_msat: `${amountSatString}sat`, label, description: `starknet:${b64url(blob)}`, expiry: ttl_seconds, ...(private_desc ? { deschashonly: true } : {}) };
+    const amountSatString = amountless ? null : amountSatBigInt.toString();
+    const params = { amount_msat: amountless ? 'any' : `${amountSatString}sat`, label, description, expiry: ttlSeconds, ...(privateDesc ? { deschashonly: true } : {}) };
 
     const out = await clnCall('invoice', params);
 
-    DB.invoices[label] = { user_id_b64, credit_address: addr, nonce_b64, amount_sats: amountSatString, bolt11: out.bolt11, status: 'unpaid', created_at: Date.now(), paid_at: null };
+    DB.invoices[label] = {
+      user_id_b64,
+      credit_address: addr,
+      nonce_b64,
+      tag_b64: b64url(blob),
+      memo: description || null,
+      desc_visible_to_payer: !privateDesc,
+      amount_sats: amountSatString,
+      amountless,
+      bolt11: out.bolt11,
+      status: 'unpaid',
+      created_at: Date.now(),
+      expires_at: out.expires_at ?? null,
+      paid_at: null,
+    };
     DB.nonces[nonce_b64] = label;
     saveDB();
 
-    res.json({ label, bolt11: out.bolt11, expires_at: out.expires_at, desc_visible_to_payer: !private_desc });
+    res.json({ label, bolt11: out.bolt11, expires_at: out.expires_at, amount_sats: amountSatString, amountless, memo: description || null, desc_visible_to_payer: !privateDesc });
   } catch (e) {
     res.status(400).json({ error: String(e.message || e) });
   }
 });
 
+// ---------- Lightning Address (LNURL-pay) ----------
+
+// GET /.well-known/lnurlp/:username -> LUD-16 payRequest for a claimed username
+app.get('/.well-known/lnurlp/:username', (req, res) => {
+  const username = normalizeUsername(req.params.username);
+  const payRequest = username ? buildPayRequest(username, resolvePublicBaseUrl(req)) : null;
+  if (!payRequest) return res.status(404).json({ status: 'ERROR', reason: 'Unknown Lightning Address' });
+  return res.json(payRequest);
+});
+
+// GET /lnurlp/:username/callback?amount=<msat>&nonce= -> invoice whose description_hash commits to the payRequest metadata
+app.get('/lnurlp/:username/callback', async (req, res) => {
+  const username = normalizeUsername(req.params.username);
+  if (!username) return res.status(404).json({ status: 'ERROR', reason: 'Unknown Lightning Address' });
+  const amountMsat = parseMsat(typeof req.query.amount === 'string' ? req.query.amount : undefined);
+  if (amountMsat === null || amountMsat <= 0n) return res.status(400).json({ status: 'ERROR', reason: 'amount (msat) is required' });
+
+  try {
+    const { bolt11 } = await createPayRequestInvoice(username, {
+      nonceB64: req.query.nonce,
+      amountMsat,
+      baseUrl: resolvePublicBaseUrl(req),
+    });
+    return res.json({ pr: bolt11, routes: [] });
+  } catch (err) {
+    const status = err?.status || 500;
+    if (status >= 500) console.error(nowIso(), 'Error during LNURL-pay callback', username, err);
+    return res.status(status).json({ status: 'ERROR', reason: status >= 500 ? 'Unable to create invoice' : err.message });
+  }
+});
+
+// GET /usernames/:starknet_address -> the Lightning Address claimed by this account, if any
+app.get('/usernames/:starknet_address', (req, res) => {
+  const addr = normalizeStarknet(req.params.starknet_address);
+  if (!addr) return res.status(400).json({ error: 'invalid_starknet_address', message: 'Expect 0x-prefixed hex' });
+  const username = getUsernameForAddress(addr);
+  if (!username) return res.status(404).json({ error: 'username_not_found', message: 'No username claimed for this address' });
+  return res.json({ username, lightning_address: lightningAddressFor(username, resolvePublicBaseUrl(req)) });
+});
+
+// POST /usernames -> claim a username; body { username, starknet_address, timestamp, signature } signed as claim_username
+app.post('/usernames', async (req, res) => {
+  const username = normalizeUsername(req.body?.username);
+  if (!username) return res.status(400).json({ error: 'invalid_username', message: 'Use 3-32 characters: a-z, 0-9, dot, dash or underscore' });
+  try {
+    const addr = await verifySignedRequest(req.body, { action: 'claim_username', subject: username });
+    claimUsername(addr, username);
+    return res.json({ username, lightning_address: lightningAddressFor(username, resolvePublicBaseUrl(req)) });
+  } catch (err) {
+    const status = err?.status || 500;
+    if (status >= 500) console.error(nowIso(), 'Error claiming username', username, err);
+    return res.status(status).json({ error: err?.code || 'internal_error', message: err?.message || 'Unable to claim username' });
+  }
+});
+
+// DELETE /usernames/:username -> release it; body { starknet_address, timestamp, signature } signed as release_username
+app.delete('/usernames/:username', async (req, res) => {
+  const username = normalizeUsername(req.params.username);
+  if (!username) return res.status(400).json({ error: 'invalid_username', message: 'Invalid username' });
+  try {
+    const addr = await verifySignedRequest(req.body, { action: 'release_username', subject: username });
+    releaseUsername(addr, username);
+    return res.json({ username, status: 'released' });
+  } catch (err) {
+    const status = err?.status || 500;
+    if (status >= 500) console.error(nowIso(), 'Error releasing username', username, err);
+    return res.status(status).json({ error: err?.code || 'internal_error', message: err?.message || 'Unable to release username' });
+  }
+});
+
+// GET /quote?bolt11=&amount_sat= -> time-limited routing fee quote; lock total_sats and send its quote_id with /pay
+app.get('/quote', async (req, res) => {
+  const { bolt11, amount_sat } = req.query;
+  if (typeof bolt11 !== 'string' || !bolt11.trim()) return res.status(400).json({ error: 'missing_bolt11', message: 'Provide a bolt11 query parameter' });
+
+  let amountSats;
+  if (amount_sat !== undefined) {
+    try {
+      amountSats = parsePositiveSats(amount_sat);
+    } catch (err) {
+      return res.status(400).json({ error: 'invalid_amount', message: err.message });
+    }
+  }
+
+  try {
+    const quote = await createRoutingQuote(bolt11, { amountSats });
+    return res.json(quote);
+  } catch (err) {
+    const status = err?.status || 400;
+    const code = err?.code || 'quote_failed';
+    if (status >= 500) console.error(nowIso(), 'Error during /quote', err);
+    return res.status(status).json({ error: code, message: err?.message || 'Unable to quote routing fee' });
+  }
+});
+
+// POST /offer -> reusable BOLT12 offer crediting { starknet_address }; body also takes description and optional amount_sat
+app.post('/offer', async (req, res) => {
+  const { starknet_address, amount_sat, amountSat, description } = req.body || {};
+  const addr = normalizeStarknet(starknet_address);
+  if (!addr) return res.status(400).json({ error: 'invalid_starknet_address', message: 'Expect 0x-prefixed hex' });
+
+  let amountSats = null;
+  const amountSatInput = amount_sat ?? amountSat;
+  if (amountSatInput !== undefined && amountSatInput !== null && amountSatInput !== '') {
+    try {
+      amountSats = parsePositiveSats(amountSatInput);
+    } catch (err) {
+      return res.status(400).json({ error: 'invalid_amount', message: err.message });
+    }
+  }
+
+  try {
+    return res.json(await createReceiveOffer(addr, { amountSats, description }));
+  } catch (err) {
+    const status = err?.status || 500;
+    if (status >= 500) console.error(nowIso(), 'Error during /offer', err);
+    return res.status(status).json({ error: err?.code || 'offer_create_failed', message: err?.message || 'Unable to create offer' });
+  }
+});
+
+// GET /offers/user/:starknet_address -> active receive offers for this account
+app.get('/offers/user/:starknet_address', (req, res) => {
+  const addr = normalizeStarknet(req.params.starknet_address);
+  if (!addr) return res.status(400).json({ error: 'invalid_starknet_address', message: 'Expect 0x-prefixed hex' });
+  try {
+    return res.json({ offers: listOffersByStarknetAddress(addr) });
+  } catch (err) {
+    console.error(nowIso(), 'Failed to list offers', err);
+    return res.status(500).json({ error: 'internal_error', message: 'Unable to retrieve offers' });
+  }
+});
+
+// GET /offer/decode?offer= -> description, issuer and fixed amount (if any) of a BOLT12 offer
+app.get('/offer/decode', async (req, res) => {
+  try {
+    return res.json(await decodeOffer(req.query.offer));
+  } catch (err) {
+    const status = err?.status || 500;
+    if (status >= 500) console.error(nowIso(), 'Error during /offer/decode', err);
+    return res.status(status).json({ error: err?.code || 'offer_decode_failed', message: err?.message || 'Unable to decode offer' });
+  }
+});
+
+// POST /offer/invoice -> fetch a BOLT12 invoice for { offer, amount_sat? }; lock its payment_hash, then /pay the invoice
+app.post('/offer/invoice', async (req, res) => {
+  const { offer, amount_sat, amountSat } = req.body || {};
+  if (typeof offer !== 'string' || !offer.trim()) return res.status(400).json({ error: 'missing_offer', message: 'Provide a BOLT12 offer' });
+
+  let amountSats;
+  const amountSatInput = amount_sat ?? amountSat;
+  if (amountSatInput !== undefined && amountSatInput !== null) {
+    try {
+      amountSats = parsePositiveSats(amountSatInput);
+    } catch (err) {
+      return res.status(400).json({ error: 'invalid_amount', message: err.message });
+    }
+  }
+
+  try {
+    return res.json(await fetchOfferInvoice(offer, { amountSats }));
+  } catch (err) {
+    const status = err?.status || 500;
+    if (status >= 500) console.error(nowIso(), 'Error during /offer/invoice', err);
+    return res.status(status).json({ error: err?.code || 'offer_fetch_failed', message: err?.message || 'Unable to fetch offer invoice' });
+  }
+});
+
 // POST /pay -> operator processes a payment claim by reading escrow state from storage
+// With `async: true` (or ?async=1) it answers 202 once the lock is verified; poll GET /payment/:hash for progress.
 app.post('/pay', async (req, res) => {
-  const { payment_hash, paymentHash, invoice_hash, invoiceHash, transaction_hash, transactionHash, bolt11 } = req.body || {};
+  const { payment_hash, paymentHash, invoice_hash, invoiceHash, transaction_hash, transactionHash, bolt11, amount_sat, amountSat, quote_id, quoteId, async: asyncBody } = req.body || {};
+  const asyncMode = asyncBody === true || req.query.async === '1' || req.query.async === 'true';
   const paymentHashInput = payment_hash || paymentHash || invoice_hash || invoiceHash;
   const transactionHashInput = transaction_hash || transactionHash; // optional (for client indexing)
+  const amountSatInput = amount_sat ?? amountSat; // optional; checked against the quoted or locked amount
+  const quoteIdInput = quote_id ?? quoteId; // the routing fee quote the lock was made against; required when a fee was locked
 
   if (!bolt11 && !paymentHashInput) return res.status(400).json({ error: 'missing_bolt11_or_hash', message: 'Provide bolt11 invoice or payment_hash' });
 
+  let amountSats;
+  if (amountSatInput !== undefined && amountSatInput !== null) {
+    try {
+      amountSats = parsePositiveSats(amountSatInput);
+    } catch (err) {
+      return res.status(400).json({ error: 'invalid_amount', message: err.message });
+    }
+  }
+
   try {
     let normalizedPaymentHash;
     if (typeof bolt11 === 'string' && bolt11.trim()) {
-      const decoded = decodeBolt11Strict(bolt11);
+      const decoded = await decodePaymentRequest(bolt11, { allowAmountless: true });
       normalizedPaymentHash = normalizePaymentHash(decoded.paymentHashNo0x);
     } else {
       normalizedPaymentHash = normalizePaymentHash(paymentHashInput);
     }
 
-    const result = await processPaymentRequest(normalizedPaymentHash, transactionHashInput, { bolt11: typeof bolt11 === 'string' ? bolt11 : undefined });
+    const payOpts = { bolt11: typeof bolt11 === 'string' ? bolt11 : undefined, amountSats, quoteId: typeof quoteIdInput === 'string' ? quoteIdInput : undefined };
+    if (asyncMode) {
+      const accepted = { payment_id: `0x${normalizedPaymentHash}`, status_url: `/payment/0x${normalizedPaymentHash}` };
+      // A retry while the first attempt is still running just gets pointed at the same record
+      if (isPaymentInflight(normalizedPaymentHash)) return res.status(202).json({ ...accepted, status: 'processing' });
+      const locked = await acceptPaymentRequest(normalizedPaymentHash, transactionHashInput, payOpts);
+      runPaymentRequest(locked, payOpts).catch((err) => {
+        // Failures are already persisted on the payment record for pollers
+        if ((err?.status || 500) >= 500) console.error(nowIso(), 'Error during async /pay', err);
+      });
+      return res.status(202).json({ ...accepted, status: 'accepted' });
+    }
 
-    const status = result?.lightning?.status || result.status || 'unknown';
-    const proof = result?.lightning?.payment_preimage
-      ? { lightning_preimage: result.lightning.payment_preimage, payment_hash: `0x${normalizedPaymentHash}` }
-      : undefined;
-    return res.json({ status, ...(proof ? { proof } : {}) });
+    const result = await processPaymentRequest(normalizedPaymentHash, transactionHashInput, payOpts);
+    return res.json(payResultBody(normalizedPaymentHash, result));
   } catch (err) {
     const status = err?.status || 500;
     const code = err?.code || 'internal_error';
@@ -122,8 +348,146 @@ app.post('/pay', async (req, res) => {
   }
 });
 
+// POST /pay/batch -> several invoices locked by one Starknet multicall; each hash settles independently
+// Body: { payments: [{ bolt11, amount_sat?, quote_id? }], transaction_hash?, async? }. Responds with one result per hash.
+app.post('/pay/batch', async (req, res) => {
+  const { payments, transaction_hash, transactionHash, async: asyncBody } = req.body || {};
+  const asyncMode = asyncBody === true || req.query.async === '1' || req.query.async === 'true';
+  const transactionHashInput = transaction_hash || transactionHash;
+
+  if (!Array.isArray(payments) || payments.length === 0) {
+    return res.status(400).json({ error: 'missing_payments', message: 'Provide a non-empty payments array' });
+  }
+  if (payments.length > LN_BATCH_MAX_PAYMENTS) {
+    return res.status(400).json({ error: 'batch_too_large', message: `A batch can hold at most ${LN_BATCH_MAX_PAYMENTS} payments` });
+  }
+
+  // Validate the whole batch up front so a typo doesn't leave half of it paid
+  const items = [];
+  const seen = new Set();
+  for (const [index, payment] of payments.entries()) {
+    const bolt11 = typeof payment?.bolt11 === 'string' ? payment.bolt11.trim() : '';
+    if (!bolt11) return res.status(400).json({ error: 'missing_bolt11', message: `payments[${index}] is missing bolt11` });
+    let normalizedPaymentHash;
+    let amountSats;
+    try {
+      const decoded = await decodePaymentRequest(bolt11, { allowAmountless: true });
+      normalizedPaymentHash = normalizePaymentHash(decoded.paymentHashNo0x);
+      const amountSatInput = payment.amount_sat ?? payment.amountSat;
+      if (amountSatInput !== undefined && amountSatInput !== null) amountSats = parsePositiveSats(amountSatInput);
+    } catch (err) {
+      return res.status(400).json({ error: err?.code || 'invalid_payment', message: `payments[${index}]: ${err.message}` });
+    }
+    if (seen.has(normalizedPaymentHash)) {
+      return res.status(400).json({ error: 'duplicate_payment_hash', message: `payments[${index}] repeats payment hash 0x${normalizedPaymentHash}` });
+    }
+    seen.add(normalizedPaymentHash);
+    const quoteIdInput = payment.quote_id ?? payment.quoteId;
+    items.push({ normalizedPaymentHash, payOpts: { bolt11, amountSats, quoteId: typeof quoteIdInput === 'string' ? quoteIdInput : undefined } });
+  }
+
+  const results = await Promise.all(items.map(async ({ normalizedPaymentHash, payOpts }) => {
+    const paymentId = `0x${normalizedPaymentHash}`;
+    try {
+      if (asyncMode) {
+        const accepted = { payment_hash: paymentId, status_url: `/payment/${paymentId}` };
+        if (isPaymentInflight(normalizedPaymentHash)) return { ...accepted, status: 'processing' };
+        const locked = await acceptPaymentRequest(normalizedPaymentHash, transactionHashInput, payOpts);
+        runPaymentRequest(locked, payOpts).catch((err) => {
+          if ((err?.status || 500) >= 500) console.error(nowIso(), 'Error during async /pay/batch', paymentId, err);
+        });
+        return { ...accepted, status: 'accepted' };
+      }
+      const result = await processPaymentRequest(normalizedPaymentHash, transactionHashInput, payOpts);
+      return { payment_hash: paymentId, ...payResultBody(normalizedPaymentHash, result) };
+    } catch (err) {
+      const status = err?.status || 500;
+      if (status >= 500) console.error(nowIso(), 'Error during /pay/batch', paymentId, err);
+      return {
+        payment_hash: paymentId,
+        status: 'failed',
+        error: err?.code || 'internal_error',
+        message: err?.message || 'Unexpected error processing payment',
+        ...(err?.details ? { details: err.details } : {}),
+      };
+    }
+  }));
+
+  const failed = results.filter((result) => result.status === 'failed').length;
+  return res.status(asyncMode && failed < results.length ? 202 : 200).json({
+    status: failed === 0 ? 'ok' : failed === results.length ? 'failed' : 'partial',
+    results,
+  });
+});
+
+// POST /pay/:payment_hash/cancel -> after a definite Lightning failure, return the lock via operator_refund
+// instead of making the user wait out the escrow window. Body is a signed request from the escrow's user.
+app.post('/pay/:payment_hash/cancel', async (req, res) => {
+  let normalizedPaymentHash;
+  try {
+    normalizedPaymentHash = normalizePaymentHash(req.params.payment_hash);
+  } catch (err) {
+    return res.status(400).json({ error: 'invalid_payment_hash', message: err.message });
+  }
+
+  try {
+    const addr = await verifySignedRequest(req.body, { action: 'cancel_payment', subject: `0x${normalizedPaymentHash}` });
+    reloadDB();
+    const result = await cancelFailedPayment(normalizedPaymentHash, addr);
+    return res.json({ payment_hash: `0x${normalizedPaymentHash}`, ...result });
+  } catch (err) {
+    const status = err?.status || 500;
+    const details = err?.details ? { details: err.details } : {};
+    if (status >= 500) console.error(nowIso(), 'Error during /pay cancel', normalizedPaymentHash, err);
+    return res.status(status).json({ error: err?.code || 'internal_error', message: err?.message || 'Unable to cancel payment', ...details });
+  }
+});
+
 // No verification endpoint: response includes universal proof (preimage + payment hash)
 
+// GET /payment/:payment_hash -> live payment record, for clients polling an async /pay
+app.get('/payment/:payment_hash', (req, res) => {
+  let normalizedPaymentHash;
+  try {
+    normalizedPaymentHash = normalizePaymentHash(req.params.payment_hash);
+  } catch (err) {
+    return res.status(400).json({ error: 'invalid_payment_hash', message: err.message });
+  }
+  try {
+    reloadDB();
+    const payment = getPaymentByHash(normalizedPaymentHash);
+    if (!payment) return res.status(404).json({ error: 'payment_not_found', message: 'No payment recorded for this hash' });
+    return res.json({ payment });
+  } catch (err) {
+    console.error(nowIso(), 'Failed to load payment', err);
+    return res.status(500).json({ error: 'internal_error', message: 'Unable to retrieve payment' });
+  }
+});
+
+// POST /payments/:payment_hash/refund -> record a user refund once it is visible on-chain
+app.post('/payments/:payment_hash/refund', async (req, res) => {
+  const { transaction_hash, transactionHash } = req.body || {};
+  const txHashInput = transaction_hash || transactionHash;
+  let normalizedPaymentHash;
+  try {
+    normalizedPaymentHash = normalizePaymentHash(req.params.payment_hash);
+  } catch (err) {
+    return res.status(400).json({ error: 'invalid_payment_hash', message: err.message });
+  }
+
+  try {
+    const position = await readEscrowPosition(normalizedPaymentHash);
+    if (position.phase !== 'Refunded') {
+      return res.status(409).json({ error: 'refund_not_confirmed', message: `Escrow is ${position.phase}, not Refunded` });
+    }
+    const entry = recordEscrowRefund(normalizedPaymentHash, { txHash: txHashInput, position });
+    return res.json({ status: entry.status, payment_hash: entry.payment_hash, refund_tx_hash: entry.starknet?.refund_tx_hash || null });
+  } catch (err) {
+    console.error(nowIso(), 'Failed to record refund', err);
+    return res.status(500).json({ error: 'internal_error', message: 'Unable to record refund' });
+  }
+});
+
 app.get('/payments/:starknet_address', (req, res) => {
   try {
     const normalized = normalizeStarknet(req.params.starknet_address);
@@ -154,7 +518,7 @@ app.get('/invoices/user/:starknet_address', (req, res) => {
   }
 });
 
-// GET /invoice/:label -> check status (and persist 'paid' timestamp)
+// GET /invoice/:label -> check status (and persist 'paid' timestamp); poll it to follow the Starknet credit
 app.get('/invoice/:label', async (req, res) => {
   try {
     reloadDB();
@@ -162,6 +526,23 @@ app.get('/invoice/:label', async (req, res) => {
     const local = DB.invoices[label];
     if (!local) return res.status(404).json({ error: 'not found' });
 
+    // Cancelled invoices are deleted on CLN, so answer from the local record
+    if (local.status === 'cancelled') {
+      return res.json({
+        label,
+        status: 'cancelled',
+        state: 'cancelled',
+        amount_sats: local.amount_sats ?? null,
+        amountless: Boolean(local.amountless),
+        amount_received_sats: null,
+        paid_at: null,
+        expires_at: local.expires_at ?? null,
+        memo: local.memo ?? null,
+        payment_hash: local.payment_hash ?? null,
+        credit: null,
+      });
+    }
+
     const out = await clnCall('listinvoices', { label });
     const inv = out.invoices?.[0];
     if (!inv) return res.status(404).json({ error: 'not found on CLN' });
@@ -173,8 +554,11 @@ app.get('/invoice/:label', async (req, res) => {
     }
 
     let amountSatsResponse = null;
-    if (inv.amount_msat !== undefined && inv.amount_msat !== null) {
-      try { const ms = BigInt(inv.amount_msat); amountSatsResponse = (ms / MSATS_PER_SAT).toString(); } catch {}
+    const receivedMsat = parseMsat(inv.amount_received_msat);
+    // Open-amount invoices only learn their amount once paid
+    const amountMsatSource = inv.amount_msat ?? inv.amount_received_msat;
+    if (amountMsatSource !== undefined && amountMsatSource !== null) {
+      try { const ms = BigInt(amountMsatSource); amountSatsResponse = (ms / MSATS_PER_SAT).toString(); } catch {}
     }
     if (!amountSatsResponse) {
       if (local.amount_sats !== undefined && local.amount_sats !== null) amountSatsResponse = String(local.amount_sats);
@@ -184,10 +568,46 @@ app.get('/invoice/:label', async (req, res) => {
       if (local.amount_sats !== amountSatsResponse) { local.amount_sats = amountSatsResponse; if (local.amount_msat !== undefined) delete local.amount_msat; saveDB(); }
     }
 
-    res.json({ label: inv.label, status: inv.status, amount_sats: amountSatsResponse, paid_at: inv.paid_at || local.paid_at, payment_hash: inv.payment_hash });
+    // `state` folds the CLN status and the invoice monitor's Starknet credit into one lifecycle:
+    // unpaid -> paid -> credited (or expired / cancelled)
+    const credit = local.credit || null;
+    const state = credit?.status === 'credited' ? 'credited' : inv.status === 'paid' ? 'paid' : inv.status === 'expired' ? 'expired' : 'unpaid';
+
+    res.json({
+      label: inv.label,
+      status: inv.status,
+      state,
+      amount_sats: amountSatsResponse,
+      amountless: Boolean(local.amountless),
+      amount_received_sats: receivedMsat !== null ? (receivedMsat / MSATS_PER_SAT).toString() : null,
+      paid_at: inv.paid_at || local.paid_at,
+      expires_at: inv.expires_at ?? null,
+      memo: local.memo ?? null,
+      payment_hash: inv.payment_hash,
+      credit: credit ? {
+        status: credit.status ?? null,
+        tx_hash: credit.tx_hash ?? null,
+        attempts: credit.attempts ?? 0,
+        credited_at_iso: credit.credited_at_iso ?? null,
+        last_error: credit.last_error ?? null,
+      } : null,
+    });
   } catch (e) {
     res.status(400).json({ error: String(e.message || e) });
   }
 });
 
+// DELETE /invoice/:label -> cancel an unpaid invoice; body is a signed request from its owner
+app.delete('/invoice/:label', async (req, res) => {
+  const label = req.params.label;
+  try {
+    const addr = await verifySignedRequest(req.body, { action: 'cancel_invoice', subject: label });
+    return res.json(await cancelReceiveInvoice(addr, label));
+  } catch (err) {
+    const status = err?.status || 500;
+    if (status >= 500) console.error(nowIso(), 'Error cancelling invoice', label, err);
+    return res.status(status).json({ error: err?.code || 'internal_error', message: err?.message || 'Unable to cancel invoice' });
+  }
+});
+
 app.listen(PORT, () => console.log(`API listening on http://localhost:${PORT}; data -> ${DATA_FILE}`));
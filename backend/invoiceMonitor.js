@@ -8,13 +8,15 @@ import { requestTransfer } from './lib/operatorTransactionsClient.js';
 import { parseMsat, parseSatsValue, normalizeStarknet } from './lib/utils.js';
 import { serializeError } from './lib/localStoreHelpers.js';
 
-const DEFAULT_POLL_INTERVAL_MS = 15_000;
+// Kept well under undici's 300s headers timeout so the long poll returns before fetch gives up
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60;
 const DEFAULT_RETRY_DELAY_MS = 60_000;
 const DEFAULT_STALE_PROCESSING_MS = 5 * 60_000;
+const ERROR_BACKOFF_MS = 5_000;
 
-const POLL_INTERVAL_MS = resolvePositiveNumber(
-  process.env.INVOICE_MONITOR_INTERVAL_MS,
-  DEFAULT_POLL_INTERVAL_MS,
+const WAIT_TIMEOUT_SECONDS = resolvePositiveNumber(
+  process.env.INVOICE_MONITOR_WAIT_SECONDS,
+  DEFAULT_WAIT_TIMEOUT_SECONDS,
 );
 const RETRY_DELAY_MS = resolvePositiveNumber(
   process.env.INVOICE_MONITOR_RETRY_MS,
@@ -51,7 +53,14 @@ function ensureCreditMeta(invoice) {
   return invoice.credit;
 }
 
+// Credits what the payer actually sent: amountless invoices have no stored amount, and a
+// fixed-amount invoice may have been overpaid
 function resolveInvoiceAmountSats(invoice) {
+  if (invoice.amount_received_msat !== undefined && invoice.amount_received_msat !== null) {
+    const receivedMsat = parseMsat(String(invoice.amount_received_msat));
+    if (receivedMsat !== null) return receivedMsat / MSATS_PER_SAT;
+  }
+  if (invoice.amountless) return null;
   if (invoice.amount_sats !== undefined && invoice.amount_sats !== null) {
     const parsed = parseSatsValue(String(invoice.amount_sats));
     if (parsed !== null) return parsed;
@@ -98,65 +107,59 @@ function loadInvoicesSnapshot() {
   return entries.map(([label, invoice]) => [label, clone(invoice)]);
 }
 
-async function refreshInvoiceFromCln(label) {
+// Copies CLN's view of an invoice (null when CLN no longer has it) onto the stored record
+function applyRemoteInvoice(label, remote) {
   const startedAt = Date.now();
-  try {
-    const response = await clnCall('listinvoices', { label });
-    const remote = response?.invoices?.[0] || null;
-    const result = updateInvoice(label, (invoice) => {
-      const monitor = ensureMonitorMeta(invoice, startedAt);
-      if (!remote) {
-        monitor.last_error = { message: 'Invoice not found on CLN', code: 'not_found' };
-        monitor.cln_status = null;
-        return { invoice: clone(invoice), remote: null };
-      }
+  const result = updateInvoice(label, (invoice) => {
+    const monitor = ensureMonitorMeta(invoice, startedAt);
+    if (!remote) {
+      monitor.last_error = { message: 'Invoice not found on CLN', code: 'not_found' };
+      monitor.cln_status = null;
+      return { invoice: clone(invoice), remote: null };
+    }
 
-      monitor.last_error = null;
-      monitor.cln_status = remote.status || null;
-      monitor.cln_updated_at = monitor.last_checked_at;
+    monitor.last_error = null;
+    monitor.cln_status = remote.status || null;
+    monitor.cln_updated_at = monitor.last_checked_at;
 
-      if (remote.status && invoice.status !== remote.status) {
-        invoice.status = remote.status;
-      }
-      if (remote.payment_hash) {
-        const hash = remote.payment_hash.toLowerCase();
-        invoice.payment_hash = hash;
-      }
-      if (remote.paid_at) {
-        invoice.paid_at = remote.paid_at;
-      }
+    // A cancel may land between the snapshot and this refresh; the local state wins
+    if (remote.status && invoice.status !== remote.status && invoice.status !== 'cancelled') {
+      invoice.status = remote.status;
+    }
+    if (remote.payment_hash) {
+      const hash = remote.payment_hash.toLowerCase();
+      invoice.payment_hash = hash;
+    }
+    if (remote.paid_at) {
+      invoice.paid_at = remote.paid_at;
+    }
+    const receivedMsat = parseMsat(remote.amount_received_msat);
+    if (receivedMsat !== null) {
+      invoice.amount_received_msat = receivedMsat.toString();
+    }
 
-      const amountMsatCandidates = [
-        remote.amount_received_msat,
-        remote.amount_msat,
-        remote.paid_msat,
-      ];
-      for (const candidate of amountMsatCandidates) {
-        const parsed = parseMsat(candidate);
-        if (parsed !== null) {
-          invoice.amount_msat = parsed.toString();
-          invoice.amount_sats = (parsed / MSATS_PER_SAT).toString();
-          break;
-        }
+    const amountMsatCandidates = [
+      remote.amount_received_msat,
+      remote.amount_msat,
+      remote.paid_msat,
+    ];
+    for (const candidate of amountMsatCandidates) {
+      const parsed = parseMsat(candidate);
+      if (parsed !== null) {
+        invoice.amount_msat = parsed.toString();
+        invoice.amount_sats = (parsed / MSATS_PER_SAT).toString();
+        break;
       }
+    }
 
-      if (!invoice.amount_sats && remote.amount_satoshis !== undefined) {
-        const parsed = parseSatsValue(remote.amount_satoshis);
-        if (parsed !== null) invoice.amount_sats = parsed.toString();
-      }
+    if (!invoice.amount_sats && remote.amount_satoshis !== undefined) {
+      const parsed = parseSatsValue(remote.amount_satoshis);
+      if (parsed !== null) invoice.amount_sats = parsed.toString();
+    }
 
-      return { invoice: clone(invoice), remote };
-    });
-    return result || { invoice: null, remote: null };
-  } catch (err) {
-    const result = updateInvoice(label, (invoice) => {
-      const monitor = ensureMonitorMeta(invoice, startedAt);
-      monitor.last_error = serializeError(err) || { message: err.message || String(err) };
-      monitor.cln_status = monitor.cln_status || null;
-      return { invoice: clone(invoice), remote: null };
-    });
-    return result || { invoice: null, remote: null };
-  }
+    return { invoice: clone(invoice), remote };
+  });
+  return result || { invoice: null, remote: null };
 }
 
 async function attemptCredit(label, invoiceSnapshot) {
@@ -168,6 +171,10 @@ async function attemptCredit(label, invoiceSnapshot) {
     if (credit.status === 'credited') {
       return { proceed: false, reason: 'already_credited', invoice: clone(invoice) };
     }
+    // The payment stream and the retry sweep run side by side; only one may transfer
+    if (credit.status === 'processing') {
+      return { proceed: false, reason: 'in_progress', invoice: clone(invoice) };
+    }
     if (shouldDelayRetry(credit, now)) {
       return { proceed: false, reason: 'retry_wait', invoice: clone(invoice) };
     }
@@ -245,36 +252,177 @@ async function attemptCredit(label, invoiceSnapshot) {
   return context.invoice;
 }
 
-async function processInvoice(label, invoiceSnapshot) {
-  let current = invoiceSnapshot;
-  if (!current) return;
+// Each payment to a reusable offer is a separate CLN invoice; copy paid ones into DB.invoices so the
+// credit path handles them and history shows one item per payment.
+function recordOfferPayments(remoteInvoices) {
+  const paid = remoteInvoices.filter((remote) => remote?.status === 'paid' && remote.label && remote.local_offer_id);
+  if (paid.length === 0) return;
+  withDB((db) => {
+    for (const remote of paid) {
+      const offerId = remote.local_offer_id;
+      const offer = db.offers[offerId];
+      if (!offer || db.invoices[remote.label]) continue;
+      const receivedMsat = parseMsat(remote.amount_received_msat);
+      db.invoices[remote.label] = {
+        user_id_b64: offer.user_id_b64,
+        credit_address: offer.credit_address,
+        tag_b64: offer.tag_b64 ?? null,
+        source: 'bolt12_offer',
+        offer_id: offerId,
+        memo: offer.description ?? null,
+        amount_sats: receivedMsat !== null ? (receivedMsat / MSATS_PER_SAT).toString() : offer.amount_sats ?? null,
+        amount_received_msat: receivedMsat !== null ? receivedMsat.toString() : null,
+        amountless: offer.amount_sats === null || offer.amount_sats === undefined,
+        bolt11: remote.bolt12 || null,
+        payment_hash: remote.payment_hash ? remote.payment_hash.toLowerCase() : null,
+        status: 'paid',
+        created_at: Date.now(),
+        paid_at: remote.paid_at ?? null,
+      };
+      console.log(nowIso(), 'Offer payment recorded', offerId, remote.label);
+    }
+  });
+}
 
-  if (current.status !== 'paid') {
-    const refreshed = await refreshInvoiceFromCln(label);
-    current = refreshed.invoice || current;
-    if (!current || current.status !== 'paid') return;
+/**
+ * Startup only: a single listinvoices call brings every open record up to date and credits whatever
+ * was paid while the monitor was down. Returns the highest pay_index CLN has handed out.
+ */
+async function reconcileInvoices() {
+  const response = await clnCall('listinvoices', {});
+  const remoteInvoices = Array.isArray(response?.invoices) ? response.invoices : [];
+  recordOfferPayments(remoteInvoices);
+
+  const remoteByLabel = new Map(remoteInvoices.filter((remote) => remote?.label).map((remote) => [remote.label, remote]));
+  for (const [label, invoice] of loadInvoicesSnapshot()) {
+    // Nothing left to learn about these
+    if (invoice.status === 'cancelled' || invoice.status === 'expired') continue;
+    if (invoice.credit?.status === 'credited') continue;
+    const current = applyRemoteInvoice(label, remoteByLabel.get(label) || null).invoice || invoice;
+    if (current.status === 'paid') await attemptCredit(label, current);
   }
 
-  await attemptCredit(label, current);
+  return remoteInvoices.reduce((max, remote) => Math.max(max, Number(remote?.pay_index) || 0), 0);
 }
 
-async function processAllInvoices() {
-  const invoices = loadInvoicesSnapshot();
-  for (const [label, invoice] of invoices) {
-    await processInvoice(label, invoice);
+async function handlePaidInvoice(remote) {
+  const label = remote?.label;
+  if (!label) return;
+  reloadDB();
+  if (!getDB().invoices[label] && remote.bolt12) {
+    // Offer payments are unknown until recorded; listinvoices is what reports local_offer_id
+    const listed = remote.local_offer_id ? { invoices: [remote] } : await clnCall('listinvoices', { label });
+    recordOfferPayments(Array.isArray(listed?.invoices) ? listed.invoices : []);
+  }
+  const { invoice } = applyRemoteInvoice(label, remote);
+  if (invoice?.status === 'paid') await attemptCredit(label, invoice);
+}
+
+// Parks a paid invoice the stream couldn't handle as a failed credit; retryFailedCredits picks it up.
+// Offer payments that never made it into the DB are recorded by the startup reconciliation instead.
+function recordHandleFailure(remote, err) {
+  const serialized = serializeError(err) || { message: err?.message || String(err) };
+  const stored = remote?.label ? updateInvoice(remote.label, (invoice) => {
+    if (remote.status === 'paid' && invoice.status !== 'cancelled') invoice.status = 'paid';
+    const credit = ensureCreditMeta(invoice);
+    if (credit.status === 'credited') return true;
+    credit.status = 'failed';
+    credit.last_error = serialized;
+    const retryAt = Date.now() + RETRY_DELAY_MS;
+    credit.next_retry_at = retryAt;
+    credit.next_retry_at_iso = new Date(retryAt).toISOString();
+    return true;
+  }) : null;
+  const outcome = stored ? 'left for the credit retry' : 'not in the DB yet';
+  console.error(nowIso(), `Failed to handle paid invoice (${outcome})`, remote?.label, serialized.message);
+}
+
+function loadPayIndexCursor() {
+  reloadDB();
+  return Number(getDB().cursors.invoice_pay_index) || 0;
+}
+
+function savePayIndexCursor(payIndex) {
+  withDB((db) => {
+    db.cursors.invoice_pay_index = payIndex;
+  });
+}
+
+function isWaitTimeout(err) {
+  // CLN answers an expired `timeout` with error code 904
+  return /"code"\s*:\s*904\b/.test(err?.message || '');
+}
+
+async function waitForPayments(startPayIndex) {
+  let lastPayIndex = startPayIndex;
+  while (true) {
+    let remote;
+    try {
+      const params = { timeout: WAIT_TIMEOUT_SECONDS };
+      if (lastPayIndex > 0) params.lastpay_index = lastPayIndex;
+      remote = await clnCall('waitanyinvoice', params);
+    } catch (err) {
+      if (isWaitTimeout(err)) continue;
+      console.error(nowIso(), 'waitanyinvoice failed', err?.message || err);
+      await sleep(ERROR_BACKOFF_MS);
+      continue;
+    }
+
+    try {
+      await handlePaidInvoice(remote);
+    } catch (err) {
+      // Move past it anyway: holding the cursor would replay this invoice forever and stall every later payment
+      try {
+        recordHandleFailure(remote, err);
+      } catch (recordErr) {
+        console.error(nowIso(), 'Failed to record invoice failure', remote?.label, recordErr?.message || recordErr);
+      }
+    }
+
+    const payIndex = Number(remote?.pay_index);
+    if (Number.isFinite(payIndex) && payIndex > lastPayIndex) {
+      lastPayIndex = payIndex;
+      savePayIndexCursor(lastPayIndex);
+    }
+  }
+}
+
+// Failed credits wait RETRY_DELAY_MS between attempts; this sweep only reads the local DB
+async function retryFailedCredits() {
+  while (true) {
+    await sleep(RETRY_DELAY_MS);
+    try {
+      for (const [label, invoice] of loadInvoicesSnapshot()) {
+        if (invoice.status !== 'paid' || invoice.credit?.status === 'credited') continue;
+        await attemptCredit(label, invoice);
+      }
+    } catch (err) {
+      console.error(nowIso(), 'Credit retry sweep failed', err?.message || err);
+    }
   }
 }
 
 async function main() {
   console.log(nowIso(), 'Invoice monitor starting');
-  while (true) {
+  let reconciledPayIndex;
+  while (reconciledPayIndex === undefined) {
     try {
-      await processAllInvoices();
+      reconciledPayIndex = await reconcileInvoices();
     } catch (err) {
-      console.error(nowIso(), 'Invoice monitor iteration failed', err?.message || err);
+      console.error(nowIso(), 'Startup reconciliation failed', err?.message || err);
+      await sleep(ERROR_BACKOFF_MS);
     }
-    await sleep(POLL_INTERVAL_MS);
   }
+
+  // Anything paid up to the reconciled index was handled above
+  const startPayIndex = Math.max(loadPayIndexCursor(), reconciledPayIndex);
+  savePayIndexCursor(startPayIndex);
+  console.log(nowIso(), 'Invoices reconciled; waiting for payments after pay_index', startPayIndex);
+
+  retryFailedCredits().catch((err) => {
+    console.error(nowIso(), 'Credit retry sweep stopped', err?.message || err);
+  });
+  await waitForPayments(startPayIndex);
 }
 
 main().catch((err) => {
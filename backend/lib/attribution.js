@@ -0,0 +1,27 @@
+import crypto from 'crypto';
+
+import { TAG_SECRET } from './config.js';
+import { b64url } from './utils.js';
+
+const TAG_VERSION = Buffer.from([1]);
+
+export function b64urlToBuffer(value) {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4), 'base64');
+}
+
+// Get-or-create the random user_id behind a Starknet address; the caller saves the DB when `created`.
+export function getOrCreateUserId(db, addr) {
+  if (db.addresses[addr]?.user_id_b64) return { userIdB64: db.addresses[addr].user_id_b64, created: false };
+  const userIdB64 = b64url(crypto.randomBytes(32));
+  db.users[userIdB64] = { created_at: Date.now() };
+  db.addresses[addr] = { ...(db.addresses[addr] || {}), user_id_b64: userIdB64, added_at: Date.now(), active: 1 };
+  return { userIdB64, created: true };
+}
+
+// version | user_id | nonce | HMAC(version | user_id | nonce): ties a received payment to a user
+// without the invoice revealing which Starknet address is credited.
+export function buildAttributionBlob(userIdB64, nonce) {
+  const userId = b64urlToBuffer(userIdB64);
+  const tag = crypto.createHmac('sha256', TAG_SECRET).update(Buffer.concat([TAG_VERSION, userId, nonce])).digest();
+  return Buffer.concat([TAG_VERSION, userId, nonce, tag]);
+}
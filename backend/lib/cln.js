@@ -38,9 +38,18 @@ export async function fetchPayPreimage(paymentHashHex) {
   }
 }
 
-export async function payInvoice(bolt11) {
+// Every `pay` attempt CLN remembers for this hash; each one reports pending, complete or failed
+export async function listPayAttempts(paymentHashHex) {
+  const res = await clnCall('listpays', { payment_hash: paymentHashHex });
+  return Array.isArray(res.pays) ? res.pays : [];
+}
+
+export async function payInvoice(bolt11, { amountMsat, maxFeeMsat } = {}) {
   const payload = { bolt11, retry_for: LN_PAY_RETRY_FOR };
-  if (Number.isFinite(LN_MAX_FEE_PERCENT) && LN_MAX_FEE_PERCENT >= 0) payload.maxfeepercent = LN_MAX_FEE_PERCENT;
+  if (amountMsat !== undefined && amountMsat !== null) payload.amount_msat = amountMsat.toString();
+  // A quoted fee (funded by the payer's lock) replaces the percentage cap; CLN rejects both together
+  if (maxFeeMsat !== undefined && maxFeeMsat !== null) payload.maxfee = maxFeeMsat.toString();
+  else if (Number.isFinite(LN_MAX_FEE_PERCENT) && LN_MAX_FEE_PERCENT >= 0) payload.maxfeepercent = LN_MAX_FEE_PERCENT;
   return clnCall('pay', payload);
 }
 
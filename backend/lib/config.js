@@ -26,6 +26,51 @@ export const LN_MAX_FEE_PERCENT = process.env.LN_MAX_FEE_PERCENT
 export const LN_PAY_RETRY_FOR = process.env.LN_PAY_RETRY_FOR
   ? Number(process.env.LN_PAY_RETRY_FOR)
   : 30;
+// Time the operator needs after a Lightning payment settles to get its claim on-chain
+export const ESCROW_CLAIM_MARGIN_SECONDS = process.env.ESCROW_CLAIM_MARGIN_SECONDS
+  ? Number(process.env.ESCROW_CLAIM_MARGIN_SECONDS)
+  : 120;
+// How long a routing fee quote stays valid; the escrow lock must be sent before it expires
+export const LN_QUOTE_TTL_SECONDS = process.env.LN_QUOTE_TTL_SECONDS
+  ? Number(process.env.LN_QUOTE_TTL_SECONDS)
+  : 120;
+// Extra time a lock signed inside the quote window may take to confirm on Starknet
+export const LN_QUOTE_LOCK_GRACE_SECONDS = process.env.LN_QUOTE_LOCK_GRACE_SECONDS
+  ? Number(process.env.LN_QUOTE_LOCK_GRACE_SECONDS)
+  : 300;
+// Quotes outlive their window because a locked payment may only be resumed (/pay) much later
+export const LN_QUOTE_RETENTION_SECONDS = process.env.LN_QUOTE_RETENTION_SECONDS
+  ? Number(process.env.LN_QUOTE_RETENTION_SECONDS)
+  : 7 * 24 * 3600;
+// Upper bound on invoices accepted by one POST /pay/batch
+export const LN_BATCH_MAX_PAYMENTS = process.env.LN_BATCH_MAX_PAYMENTS
+  ? Number(process.env.LN_BATCH_MAX_PAYMENTS)
+  : 10;
+
+// Bounds on the expiry a client may request for a receive invoice
+export const INVOICE_MIN_TTL_SECONDS = 60;
+export const INVOICE_MAX_TTL_SECONDS = process.env.INVOICE_MAX_TTL_SECONDS
+  ? Number(process.env.INVOICE_MAX_TTL_SECONDS)
+  : 7 * 24 * 3600;
+// BOLT11 caps the description at 639 bytes
+export const INVOICE_MEMO_MAX_BYTES = 639;
+
+// Public origin of the API, used in LNURL-pay callbacks and as the Lightning Address domain.
+// Falls back to the Host header of the incoming request.
+export const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL || null;
+export const LNURL_MIN_SENDABLE_SATS = process.env.LNURL_MIN_SENDABLE_SATS
+  ? BigInt(process.env.LNURL_MIN_SENDABLE_SATS)
+  : 1n;
+export const LNURL_MAX_SENDABLE_SATS = process.env.LNURL_MAX_SENDABLE_SATS
+  ? BigInt(process.env.LNURL_MAX_SENDABLE_SATS)
+  : 1_000_000n;
+export const LNURL_INVOICE_TTL_SECONDS = process.env.LNURL_INVOICE_TTL_SECONDS
+  ? Number(process.env.LNURL_INVOICE_TTL_SECONDS)
+  : 600;
+// How far a signed request's timestamp may drift from the server clock
+export const REQUEST_SIGNATURE_MAX_AGE_SECONDS = process.env.REQUEST_SIGNATURE_MAX_AGE_SECONDS
+  ? Number(process.env.REQUEST_SIGNATURE_MAX_AGE_SECONDS)
+  : 300;
 
 export const nowIso = () => new Date().toISOString();
 
@@ -1,5 +1,11 @@
 import lightBolt11 from 'light-bolt11-decoder';
 import { MSATS_PER_SAT } from './config.js';
+import { clnCall } from './cln.js';
+import { getDB, reloadDB, withDB } from './localStore.js';
+
+const BOLT12_INVOICE_PREFIX = /^lni1/i;
+// BOLT12 default when the invoice carries no relative expiry
+const BOLT12_DEFAULT_EXPIRY_SECONDS = 7200;
 
 export function parseNumericValue(value) {
   if (value === null || value === undefined) return null;
@@ -22,7 +28,7 @@ export function parseNumericValue(value) {
   return null;
 }
 
-export function decodeBolt11Strict(bolt11) {
+export function decodeBolt11Strict(bolt11, { allowAmountless = false } = {}) {
   if (typeof bolt11 !== 'string' || !bolt11.trim()) {
     throw new Error('BOLT11 invoice is required');
   }
@@ -45,8 +51,91 @@ export function decodeBolt11Strict(bolt11) {
     const cands = [decoded?.millisatoshis, decoded?.milliSatoshis, decoded?.miliSatoshis, decoded?.msatoshi, decoded?.msatoshis, decoded?.msat, decoded?.amount_msat, decoded?.amountMsat];
     for (const c of cands) { const parsed = parseNumericValue(c); if (parsed !== null) { amountMsat = parsed; break; } }
   }
+  if (amountMsat === null && allowAmountless) return { paymentHashNo0x, amountSats: null };
   if (amountMsat === null || amountMsat <= 0n) throw new Error('BOLT11 invoice is missing an amount');
   if (amountMsat % MSATS_PER_SAT !== 0n) throw new Error('Invoice amount must resolve to whole sats');
   return { paymentHashNo0x, amountSats: amountMsat / MSATS_PER_SAT };
 }
 
+
+export function isBolt12Invoice(value) {
+  return typeof value === 'string' && BOLT12_INVOICE_PREFIX.test(value.trim());
+}
+
+// BOLT12 invoices are TLV-encoded and signed; CLN's `decode` checks the signature for us
+export async function decodeBolt12Invoice(invoice) {
+  const decoded = await clnCall('decode', { string: invoice.trim() });
+  if (decoded?.type !== 'bolt12 invoice' || decoded.valid === false) {
+    const e = new Error('Unable to decode BOLT12 invoice'); e.status = 400; e.code = 'invalid_invoice'; throw e;
+  }
+  const paymentHashNo0x = decoded.invoice_payment_hash ? String(decoded.invoice_payment_hash).toLowerCase() : null;
+  if (!paymentHashNo0x || !/^[0-9a-f]{64}$/.test(paymentHashNo0x)) {
+    const e = new Error('BOLT12 invoice is missing a valid payment hash'); e.status = 400; e.code = 'invalid_invoice'; throw e;
+  }
+  const amountMsat = parseNumericValue(decoded.invoice_amount_msat);
+  if (amountMsat === null || amountMsat <= 0n) {
+    const e = new Error('BOLT12 invoice is missing an amount'); e.status = 400; e.code = 'invalid_invoice'; throw e;
+  }
+  if (amountMsat % MSATS_PER_SAT !== 0n) {
+    const e = new Error('Invoice amount must resolve to whole sats'); e.status = 400; e.code = 'fractional_sats'; throw e;
+  }
+  const createdAt = Number(decoded.invoice_created_at);
+  const relativeExpiry = Number(decoded.invoice_relative_expiry ?? BOLT12_DEFAULT_EXPIRY_SECONDS);
+  return {
+    paymentHashNo0x,
+    amountSats: amountMsat / MSATS_PER_SAT,
+    expiresAt: Number.isFinite(createdAt) ? createdAt + relativeExpiry : null,
+    payee: decoded.invoice_node_id || null,
+  };
+}
+
+// Accepts a BOLT11 or a BOLT12 (`lni1…`) invoice; BOLT12 decoding needs a round-trip to CLN
+export async function decodePaymentRequest(request, opts = {}) {
+  if (isBolt12Invoice(request)) return decodeBolt12Invoice(request);
+  return decodeBolt11Strict(request, opts);
+}
+
+/**
+ * Closes an unpaid receive invoice owned by `addr`: deletes it on CLN so it can no longer be paid and
+ * marks the local record cancelled, which takes it out of the invoice monitor's polling.
+ */
+export async function cancelReceiveInvoice(addr, label) {
+  reloadDB();
+  const db = getDB();
+  const invoice = db.invoices[label];
+  if (!invoice) {
+    const e = new Error('Invoice not found'); e.status = 404; e.code = 'invoice_not_found'; throw e;
+  }
+  const userIdB64 = db.addresses[addr]?.user_id_b64;
+  if (!userIdB64 || invoice.user_id_b64 !== userIdB64) {
+    const e = new Error('Invoice belongs to another address'); e.status = 403; e.code = 'invoice_not_owned'; throw e;
+  }
+  if (invoice.status === 'cancelled') return { label, status: 'cancelled' };
+  if (invoice.status === 'paid') {
+    const e = new Error('Invoice is already paid'); e.status = 409; e.code = 'invoice_paid'; throw e;
+  }
+
+  try {
+    await clnCall('delinvoice', { label, status: 'unpaid' });
+  } catch (err) {
+    // CLN refuses once the status moved on; only a payment that landed in between should stop us
+    const out = await clnCall('listinvoices', { label });
+    const remote = out?.invoices?.[0];
+    if (remote?.status === 'paid') {
+      const e = new Error('Invoice was paid before it could be cancelled'); e.status = 409; e.code = 'invoice_paid'; throw e;
+    }
+    if (remote?.status === 'unpaid') {
+      const e = new Error('CLN refused to delete the invoice'); e.status = 502; e.code = 'invoice_cancel_failed'; e.details = { reason: err?.message || String(err) }; throw e;
+    }
+    if (remote?.status === 'expired') await clnCall('delinvoice', { label, status: 'expired' });
+  }
+
+  return withDB((store) => {
+    const entry = store.invoices[label];
+    if (entry && entry.status !== 'paid') {
+      entry.status = 'cancelled';
+      entry.cancelled_at = Date.now();
+    }
+    return { label, status: entry?.status ?? 'cancelled' };
+  });
+}
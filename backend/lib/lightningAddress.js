@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+
+import {
+  LNURL_INVOICE_TTL_SECONDS,
+  LNURL_MAX_SENDABLE_SATS,
+  LNURL_MIN_SENDABLE_SATS,
+  MSATS_PER_SAT,
+  PUBLIC_BASE_URL,
+} from './config.js';
+import { clnCall } from './cln.js';
+import { getDB, reloadDB, withDB } from './localStore.js';
+import { buildAttributionBlob, b64urlToBuffer, getOrCreateUserId } from './attribution.js';
+import { b64url } from './utils.js';
+
+// LUD-16 allows a-z0-9-_. in the local part; keep names readable and non-trivial
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+
+export function normalizeUsername(value) {
+  if (typeof value !== 'string') return null;
+  const username = value.trim().toLowerCase();
+  return USERNAME_PATTERN.test(username) ? username : null;
+}
+
+export function resolvePublicBaseUrl(req) {
+  const base = PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return base.replace(/\/+$/, '');
+}
+
+export function lightningAddressFor(username, baseUrl) {
+  return `${username}@${new URL(baseUrl).host}`;
+}
+
+// The callback recomputes this exact string; its sha256 is the invoice's description_hash (LUD-06)
+function buildPayMetadata(username, baseUrl, blob) {
+  const address = lightningAddressFor(username, baseUrl);
+  return JSON.stringify([
+    ['text/plain', `Payment to ${address}`],
+    ['text/identifier', address],
+    ['text/x-starknet-tag', `starknet:${b64url(blob)}`],
+  ]);
+}
+
+export function getUsernameForAddress(addr) {
+  reloadDB();
+  return getDB().addresses[addr]?.username || null;
+}
+
+function lookupUsername(username) {
+  reloadDB();
+  const db = getDB();
+  const entry = db.usernames[username];
+  if (!entry) return null;
+  const userIdB64 = db.addresses[entry.starknet_address]?.user_id_b64;
+  return userIdB64 ? { starknetAddress: entry.starknet_address, userIdB64 } : null;
+}
+
+// An address holds one username at a time; claiming a new one frees the old
+export function claimUsername(addr, username) {
+  return withDB((db) => {
+    const existing = db.usernames[username];
+    if (existing && existing.starknet_address !== addr) {
+      const e = new Error('Username is already taken'); e.status = 409; e.code = 'username_taken'; throw e;
+    }
+    getOrCreateUserId(db, addr);
+    const previous = db.addresses[addr].username;
+    if (previous && previous !== username) delete db.usernames[previous];
+    db.usernames[username] = { starknet_address: addr, claimed_at: existing?.claimed_at ?? Date.now() };
+    db.addresses[addr].username = username;
+    return username;
+  });
+}
+
+export function releaseUsername(addr, username) {
+  return withDB((db) => {
+    const existing = db.usernames[username];
+    if (!existing) {
+      const e = new Error('Username is not claimed'); e.status = 404; e.code = 'username_not_found'; throw e;
+    }
+    if (existing.starknet_address !== addr) {
+      const e = new Error('Username belongs to another address'); e.status = 403; e.code = 'username_not_owned'; throw e;
+    }
+    delete db.usernames[username];
+    if (db.addresses[addr]?.username === username) delete db.addresses[addr].username;
+    return username;
+  });
+}
+
+/**
+ * LUD-06 payRequest for a username. Each response carries a fresh nonce in the callback URL, so the
+ * attribution tag (and with it the metadata) is unique per payment without storing anything yet.
+ */
+export function buildPayRequest(username, baseUrl) {
+  const target = lookupUsername(username);
+  if (!target) return null;
+  const nonce = crypto.randomBytes(12);
+  const blob = buildAttributionBlob(target.userIdB64, nonce);
+  return {
+    tag: 'payRequest',
+    callback: `${baseUrl}/lnurlp/${encodeURIComponent(username)}/callback?nonce=${b64url(nonce)}`,
+    minSendable: Number(LNURL_MIN_SENDABLE_SATS * MSATS_PER_SAT),
+    maxSendable: Number(LNURL_MAX_SENDABLE_SATS * MSATS_PER_SAT),
+    metadata: buildPayMetadata(username, baseUrl, blob),
+  };
+}
+
+// Creates the invoice for a payRequest callback; the invoice monitor credits it like any /invoice
+export async function createPayRequestInvoice(username, { nonceB64, amountMsat, baseUrl }) {
+  const target = lookupUsername(username);
+  if (!target) {
+    const e = new Error('Unknown Lightning Address'); e.status = 404; e.code = 'username_not_found'; throw e;
+  }
+  if (typeof nonceB64 !== 'string' || !NONCE_PATTERN.test(nonceB64)) {
+    const e = new Error('Missing or invalid nonce; request the Lightning Address again'); e.status = 400; e.code = 'invalid_nonce'; throw e;
+  }
+  if (amountMsat % MSATS_PER_SAT !== 0n) {
+    const e = new Error('Amount must be a whole number of sats'); e.status = 400; e.code = 'fractional_sats'; throw e;
+  }
+  const amountSats = amountMsat / MSATS_PER_SAT;
+  if (amountSats < LNURL_MIN_SENDABLE_SATS || amountSats > LNURL_MAX_SENDABLE_SATS) {
+    const e = new Error(`Amount must be between ${LNURL_MIN_SENDABLE_SATS} and ${LNURL_MAX_SENDABLE_SATS} sats`); e.status = 400; e.code = 'amount_out_of_range'; throw e;
+  }
+  if (getDB().nonces[nonceB64]) {
+    const e = new Error('This payment request was already used; request the Lightning Address again'); e.status = 409; e.code = 'nonce_used'; throw e;
+  }
+
+  const blob = buildAttributionBlob(target.userIdB64, b64urlToBuffer(nonceB64));
+  const label = `lnaddr-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
+  const out = await clnCall('invoice', {
+    amount_msat: amountMsat.toString(),
+    label,
+    description: buildPayMetadata(username, baseUrl, blob),
+    deschashonly: true,
+    expiry: LNURL_INVOICE_TTL_SECONDS,
+  });
+
+  withDB((db) => {
+    db.invoices[label] = {
+      user_id_b64: target.userIdB64,
+      credit_address: target.starknetAddress,
+      nonce_b64: nonceB64,
+      tag_b64: b64url(blob),
+      source: 'lightning_address',
+      username,
+      memo: null,
+      desc_visible_to_payer: false,
+      amount_sats: amountSats.toString(),
+      amountless: false,
+      bolt11: out.bolt11,
+      status: 'unpaid',
+      created_at: Date.now(),
+      expires_at: out.expires_at ?? null,
+      paid_at: null,
+    };
+    db.nonces[nonceB64] = label;
+  });
+
+  return { label, bolt11: out.bolt11 };
+}
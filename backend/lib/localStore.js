@@ -3,7 +3,7 @@ import path from 'path';
 
 import { DATA_FILE } from './config.js';
 
-const DEFAULT_DB = () => ({ users: {}, addresses: {}, invoices: {}, nonces: {}, payments: {} });
+const DEFAULT_DB = () => ({ users: {}, addresses: {}, invoices: {}, nonces: {}, payments: {}, quotes: {}, usernames: {}, offers: {}, cursors: {} });
 
 function ensureDataFile() {
   const filePath = path.resolve(DATA_FILE);
@@ -28,6 +28,10 @@ function initDB() {
   db.invoices ||= {};
   db.nonces ||= {};
   db.payments ||= {};
+  db.quotes ||= {};
+  db.usernames ||= {};
+  db.offers ||= {};
+  db.cursors ||= {};
   return { db, filePath };
 }
 
@@ -59,6 +63,10 @@ export function reloadDB() {
   DB.invoices ||= {};
   DB.nonces ||= {};
   DB.payments ||= {};
+  DB.quotes ||= {};
+  DB.usernames ||= {};
+  DB.offers ||= {};
+  DB.cursors ||= {};
   return DB;
 }
 
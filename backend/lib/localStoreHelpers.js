@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 import { withDB, getDB } from './localStore.js';
 
 function now() {
@@ -61,6 +63,7 @@ function setInvoiceDetails(entry, details) {
   if (details.amount_sats !== undefined && details.amount_sats !== null) invoice.amount_sats = details.amount_sats;
   if (details.bolt11 !== undefined && details.bolt11 !== null) invoice.bolt11 = details.bolt11;
   if (details.source !== undefined) invoice.source = details.source;
+  if (details.amountless !== undefined) invoice.amountless = Boolean(details.amountless);
   const { at, at_iso } = now();
   invoice.updated_at = at;
   invoice.updated_at_iso = at_iso;
@@ -93,6 +96,27 @@ function serializeError(err) {
   return plain;
 }
 
+function preimageMatchesHash(preimageHex, paymentHashNo0x) {
+  if (typeof preimageHex !== 'string' || !/^(0x)?[0-9a-fA-F]{64}$/.test(preimageHex)) return false;
+  const preimage = Buffer.from(preimageHex.replace(/^0x/, ''), 'hex');
+  return crypto.createHash('sha256').update(preimage).digest('hex') === String(paymentHashNo0x).toLowerCase();
+}
+
+// Receipts are what support uses to settle "did it go through" disputes; the preimage is the proof.
+function setReceipt(entry, { paymentPreimage, amountSats, at_iso }) {
+  const receipt = { ...(entry.receipt || {}) };
+  receipt.version = 1;
+  receipt.payment_hash = entry.payment_hash;
+  receipt.preimage = paymentPreimage || receipt.preimage || null;
+  receipt.preimage_verified = preimageMatchesHash(receipt.preimage, entry.payment_hash_no_prefix);
+  receipt.amount_sats = amountSats ?? receipt.amount_sats ?? null;
+  receipt.bolt11 = entry.invoice?.bolt11 || entry.request?.bolt11 || null;
+  receipt.payer = entry.escrow?.user || null;
+  receipt.lock_tx_hash = entry.request?.transaction_hash || entry.escrow?.starknet_tx_hash || null;
+  receipt.paid_at = receipt.paid_at || at_iso;
+  entry.receipt = receipt;
+}
+
 function clonePaymentEntry(entry) {
   if (!entry || typeof entry !== 'object') return null;
   return JSON.parse(JSON.stringify(entry));
@@ -105,7 +129,7 @@ function cloneInvoiceEntry(label, entry) {
   return clone;
 }
 
-export function recordPaymentRequest({ paymentHash, locked, bolt11, transactionHash }) {
+export function recordPaymentRequest({ paymentHash, locked, bolt11, transactionHash, requestedAmountSats }) {
   const normalizedHash = paymentHash.startsWith('0x') ? paymentHash.slice(2) : paymentHash;
   const bolt11Value = bolt11 || null;
   const lockedAmount = locked?.amount !== undefined && locked?.amount !== null ? String(locked.amount) : null;
@@ -119,6 +143,7 @@ export function recordPaymentRequest({ paymentHash, locked, bolt11, transactionH
         received_at_iso: at_iso,
         bolt11: bolt11Value,
         transaction_hash: transactionHash || null,
+        amount_sats: requestedAmountSats !== undefined && requestedAmountSats !== null ? String(requestedAmountSats) : null,
       };
       entry.escrow = {
         user: locked?.user || null,
@@ -141,12 +166,12 @@ export function recordPaymentRequest({ paymentHash, locked, bolt11, transactionH
   );
 }
 
-export function recordInvoiceDetails(paymentHash, { label, status, amount_sats, bolt11, source }) {
+export function recordInvoiceDetails(paymentHash, { label, status, amount_sats, bolt11, source, amountless }) {
   const normalizedHash = paymentHash.startsWith('0x') ? paymentHash.slice(2) : paymentHash;
   return mutatePayment(
     normalizedHash,
     (entry) => {
-      setInvoiceDetails(entry, { label, status, amount_sats, bolt11, source });
+      setInvoiceDetails(entry, { label, status, amount_sats, bolt11, source, amountless });
       const lightning = ensureLightning(entry);
       if (status !== undefined && status !== null) lightning.invoice_status = status;
       if (amount_sats !== undefined && amount_sats !== null) lightning.amount_sats = amount_sats;
@@ -179,6 +204,7 @@ export function recordLightningSuccess(paymentHash, { invoice_status, amount_sat
       lightning.pay_result = pay_result || lightning.pay_result || null;
       lightning.error = null;
       lightning.updated_at_iso = at_iso;
+      setReceipt(entry, { paymentPreimage: lightning.payment_preimage, amountSats: amount_sats, at_iso });
     },
     'lightning_succeeded',
     { status: lightningStatus, invoice_status: invoice_status ?? null }
@@ -280,6 +306,7 @@ export function markStarknetClaimSuccess(paymentHash, txHash) {
       starknet.claimed_at = at;
       starknet.claimed_at_iso = at_iso;
       starknet.tx_hash = txHash || starknet.tx_hash || null;
+      if (entry.receipt) entry.receipt.claim_tx_hash = starknet.tx_hash;
     },
     'claim_confirmed',
     { tx_hash: txHash || null }
@@ -305,6 +332,42 @@ export function markStarknetClaimFailure(paymentHash, error) {
   );
 }
 
+export function recordEscrowRefund(paymentHash, { txHash, position }) {
+  const normalizedHash = paymentHash.startsWith('0x') ? paymentHash.slice(2) : paymentHash;
+  return mutatePayment(
+    normalizedHash,
+    (entry) => {
+      entry.status = 'refunded';
+      // A refund can land for a payment that never reached /pay; keep it visible in history.
+      if (!entry.escrow?.user && position) {
+        entry.escrow = {
+          user: position.user,
+          amount_sats: String(position.amount),
+          expires_at: String(position.expiresAt),
+          locked_at: String(position.lockedAt),
+          block_number: null,
+          starknet_tx_hash: null,
+        };
+      }
+      const starknet = ensureStarknet(entry);
+      const { at, at_iso } = now();
+      starknet.status = 'refunded';
+      starknet.refunded_at = at;
+      starknet.refunded_at_iso = at_iso;
+      starknet.refund_tx_hash = txHash || starknet.refund_tx_hash || null;
+    },
+    'escrow_refunded',
+    { tx_hash: txHash || null }
+  );
+}
+
+export function getPaymentByHash(paymentHash) {
+  if (typeof paymentHash !== 'string') return null;
+  const normalizedHash = (paymentHash.startsWith('0x') ? paymentHash.slice(2) : paymentHash).toLowerCase();
+  const db = getDB();
+  return clonePaymentEntry(db?.payments?.[normalizedHash]);
+}
+
 export function listPaymentsByStarknetAddress(starknetAddress) {
   if (typeof starknetAddress !== 'string') return [];
   const normalized = starknetAddress.trim().toLowerCase();
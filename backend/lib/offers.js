@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+
+import { INVOICE_MEMO_MAX_BYTES, MSATS_PER_SAT, TAG_SECRET } from './config.js';
+import { clnCall } from './cln.js';
+import { decodeBolt12Invoice, parseNumericValue } from './invoices.js';
+import { getDB, reloadDB, withDB } from './localStore.js';
+import { buildAttributionBlob, getOrCreateUserId } from './attribution.js';
+import { b64url } from './utils.js';
+
+const OFFER_PREFIX = /^lno1/i;
+
+/**
+ * Decodes a BOLT12 offer through CLN. `amount_sats` is null when the payer picks the amount.
+ */
+export async function decodeOffer(offer) {
+  if (typeof offer !== 'string' || !OFFER_PREFIX.test(offer.trim())) {
+    const e = new Error('Provide a BOLT12 offer (lno1…)'); e.status = 400; e.code = 'invalid_offer'; throw e;
+  }
+  const decoded = await clnCall('decode', { string: offer.trim() });
+  if (decoded?.type !== 'bolt12 offer' || decoded.valid === false) {
+    const e = new Error('Unable to decode BOLT12 offer'); e.status = 400; e.code = 'invalid_offer'; throw e;
+  }
+  // Fiat-denominated offers would need an exchange rate we can't lock against
+  if (decoded.offer_currency) {
+    const e = new Error(`Offers priced in ${decoded.offer_currency} are not supported`); e.status = 422; e.code = 'unsupported_offer_currency'; throw e;
+  }
+  const absoluteExpiry = decoded.offer_absolute_expiry !== undefined ? Number(decoded.offer_absolute_expiry) : null;
+  if (absoluteExpiry !== null && absoluteExpiry <= Math.floor(Date.now() / 1000)) {
+    const e = new Error('This offer has expired'); e.status = 410; e.code = 'offer_expired'; throw e;
+  }
+
+  const amountMsat = parseNumericValue(decoded.offer_amount_msat);
+  if (amountMsat !== null && amountMsat % MSATS_PER_SAT !== 0n) {
+    const e = new Error('Offer amount must resolve to whole sats'); e.status = 422; e.code = 'fractional_sats'; throw e;
+  }
+
+  return {
+    offer: offer.trim(),
+    offer_id: decoded.offer_id || null,
+    description: decoded.offer_description || null,
+    issuer: decoded.offer_issuer || null,
+    amount_sats: amountMsat !== null ? (amountMsat / MSATS_PER_SAT).toString() : null,
+    expires_at: absoluteExpiry,
+  };
+}
+
+/**
+ * Asks the offer's node for a concrete invoice (CLN `fetchinvoice`) so the payer can lock
+ * against its payment hash. The returned `invoice` is then paid through /pay like a BOLT11.
+ */
+export async function fetchOfferInvoice(offer, { amountSats } = {}) {
+  const details = await decodeOffer(offer);
+  const offerAmount = details.amount_sats !== null ? BigInt(details.amount_sats) : null;
+  if (offerAmount === null && (amountSats === undefined || amountSats === null)) {
+    const e = new Error('Offer has no amount; provide amount_sat'); e.status = 400; e.code = 'amount_required'; throw e;
+  }
+  if (offerAmount !== null && amountSats !== undefined && amountSats !== null && amountSats !== offerAmount) {
+    const e = new Error('Requested amount does not match offer amount'); e.status = 409; e.code = 'amount_mismatch'; throw e;
+  }
+  const requestedAmount = offerAmount ?? amountSats;
+
+  let fetched;
+  try {
+    fetched = await clnCall('fetchinvoice', {
+      offer: details.offer,
+      // CLN rejects amount_msat for offers that already fix the amount
+      ...(offerAmount === null ? { amount_msat: (requestedAmount * MSATS_PER_SAT).toString() } : {}),
+    });
+  } catch (err) {
+    const e = new Error(`Unable to fetch an invoice for this offer: ${err?.message || err}`); e.status = 502; e.code = 'offer_fetch_failed'; throw e;
+  }
+  if (typeof fetched?.invoice !== 'string' || !fetched.invoice) {
+    const e = new Error('Offer node did not return an invoice'); e.status = 502; e.code = 'offer_fetch_failed'; throw e;
+  }
+
+  const invoice = await decodeBolt12Invoice(fetched.invoice);
+  if (invoice.amountSats !== requestedAmount) {
+    const e = new Error('Fetched invoice amount does not match the requested amount'); e.status = 502; e.code = 'amount_mismatch'; throw e;
+  }
+
+  return {
+    offer_id: details.offer_id,
+    description: details.description,
+    issuer: details.issuer,
+    invoice: fetched.invoice,
+    payment_hash: invoice.paymentHashNo0x,
+    amount_sats: invoice.amountSats.toString(),
+    expires_at: invoice.expiresAt,
+    payee: invoice.payee,
+  };
+}
+
+function offerSummary(offerId, entry) {
+  return {
+    offer_id: offerId,
+    bolt12: entry.bolt12,
+    description: entry.description,
+    amount_sats: entry.amount_sats,
+    created_at: entry.created_at,
+  };
+}
+
+// The issuer is part of the offer, so two users creating the same description and amount get
+// different offers. It is an HMAC of the address: stable per user, but it doesn't reveal who is credited.
+function offerIssuer(addr) {
+  const handle = crypto.createHmac('sha256', TAG_SECRET).update(`offer-issuer:${addr}`).digest('hex').slice(0, 16);
+  return `PaySat ${handle}`;
+}
+
+/**
+ * Creates a reusable receive offer (CLN `offer`) for `addr`. Every payment against it becomes its own
+ * CLN invoice, which the invoice monitor picks up and credits like a one-off /invoice.
+ */
+export async function createReceiveOffer(addr, { amountSats, description }) {
+  const trimmed = typeof description === 'string' ? description.trim() : '';
+  if (!trimmed) {
+    const e = new Error('description is required'); e.status = 400; e.code = 'description_required'; throw e;
+  }
+  if (Buffer.byteLength(trimmed, 'utf8') > INVOICE_MEMO_MAX_BYTES) {
+    const e = new Error(`description must be at most ${INVOICE_MEMO_MAX_BYTES} bytes`); e.status = 400; e.code = 'description_too_long'; throw e;
+  }
+
+  const created = await clnCall('offer', {
+    amount: amountSats !== null && amountSats !== undefined ? `${(amountSats * MSATS_PER_SAT).toString()}msat` : 'any',
+    description: trimmed,
+    issuer: offerIssuer(addr),
+    label: `offer-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+  });
+  const offerId = created?.offer_id;
+  if (!offerId || !created.bolt12) {
+    const e = new Error('CLN did not return an offer'); e.status = 502; e.code = 'offer_create_failed'; throw e;
+  }
+
+  return withDB((db) => {
+    const existing = db.offers[offerId];
+    // CLN hands back the existing offer when every field matches one it already has; the issuer makes
+    // that the same user's offer, so another address here means the issuer handles collided
+    if (existing) {
+      if (existing.credit_address !== addr) {
+        const e = new Error('Offer id is already taken by another account'); e.status = 409; e.code = 'offer_conflict'; throw e;
+      }
+      return offerSummary(offerId, existing);
+    }
+    const { userIdB64 } = getOrCreateUserId(db, addr);
+    const blob = buildAttributionBlob(userIdB64, crypto.randomBytes(12));
+    db.offers[offerId] = {
+      user_id_b64: userIdB64,
+      credit_address: addr,
+      tag_b64: b64url(blob),
+      bolt12: created.bolt12,
+      description: trimmed,
+      amount_sats: amountSats !== null && amountSats !== undefined ? amountSats.toString() : null,
+      active: true,
+      created_at: Date.now(),
+    };
+    return offerSummary(offerId, db.offers[offerId]);
+  });
+}
+
+export function listOffersByStarknetAddress(addr) {
+  reloadDB();
+  const offers = getDB().offers || {};
+  return Object.entries(offers)
+    .filter(([, entry]) => entry?.credit_address === addr && entry.active !== false)
+    .map(([offerId, entry]) => offerSummary(offerId, entry))
+    .sort((a, b) => (b.created_at ?? 0) - (a.created_at ?? 0));
+}
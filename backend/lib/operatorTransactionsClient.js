@@ -36,6 +36,26 @@ export async function requestClaim(paymentHashHex, preimageHex) {
   return json;
 }
 
+export async function requestRefund(paymentHashHex) {
+  const payload = {
+    payment_hash: typeof paymentHashHex === 'string' ? paymentHashHex : String(paymentHashHex),
+  };
+  const response = await fetch(buildUrl('/refund'), {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  const json = await parseJsonResponse(response);
+  if (!response.ok) {
+    const message = json?.message || json?.error || `Refund service error (${response.status})`;
+    const err = new Error(message);
+    err.status = response.status;
+    err.details = json;
+    throw err;
+  }
+  return json;
+}
+
 export async function requestTransfer({ recipientAddress, amountSats }) {
   const payload = {
     recipient_address: recipientAddress,
@@ -1,8 +1,9 @@
-import { MSATS_PER_SAT } from './config.js';
-import { findInvoice, fetchPayPreimage, payInvoice } from './cln.js';
-import { decodeBolt11Strict } from './invoices.js';
+import { ESCROW_CLAIM_MARGIN_SECONDS, LN_PAY_RETRY_FOR, MSATS_PER_SAT } from './config.js';
+import { findInvoice, fetchPayPreimage, listPayAttempts, payInvoice } from './cln.js';
+import { decodePaymentRequest, isBolt12Invoice } from './invoices.js';
 import { sanitizePayResult, parseMsat } from './utils.js';
-import { loadEscrowFromStorage } from './starknet.js';
+import { loadEscrowFromStorage, readEscrowPosition } from './starknet.js';
+import { findRoutingQuote } from './quotes.js';
 import {
   recordPaymentRequest,
   recordInvoiceDetails,
@@ -11,20 +12,64 @@ import {
   markPaymentInflight,
   markPaymentAlreadyClaimed,
   recordPaymentError,
+  recordEscrowRefund,
+  getPaymentByHash,
 } from './localStoreHelpers.js';
-import { requestClaim } from './operatorTransactionsClient.js';
+import { requestClaim, requestRefund } from './operatorTransactionsClient.js';
+
+// Paying is only safe if the escrow outlives the whole `pay` retry window plus the claim;
+// otherwise the user could refund after the operator already paid the invoice.
+function assertEscrowOutlivesSettlement(locked) {
+  const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+  const requiredSeconds = BigInt(Math.ceil(LN_PAY_RETRY_FOR + ESCROW_CLAIM_MARGIN_SECONDS));
+  const remainingSeconds = locked.expiresAt - nowSeconds;
+  if (remainingSeconds < requiredSeconds) {
+    const e = new Error('Escrow expires before the Lightning payment and claim can complete'); e.status = 409; e.code = 'escrow_expiring'; e.details = { expires_at: locked.expiresAt.toString(), remaining_seconds: remainingSeconds.toString(), required_seconds: requiredSeconds.toString() }; throw e;
+  }
+}
 
 const inflightHashes = new Set();
 const processedHashes = new Set();
+// Hashes between acceptPaymentRequest and runPaymentRequest; reserved before the first await
+const acceptingHashes = new Set();
+
+export function isPaymentInflight(paymentHashHex) {
+  return inflightHashes.has(paymentHashHex) || acceptingHashes.has(paymentHashHex);
+}
+
+// Verifies the escrow lock and records the request; the Lightning payment itself happens in runPaymentRequest.
+export async function acceptPaymentRequest(paymentHashHex, _transactionHash, opts = {}) {
+  if (isPaymentInflight(paymentHashHex)) {
+    const e = new Error('Payment processing already in progress for this hash');
+    e.status = 409; e.code = 'payment_inflight';
+    throw e;
+  }
+  acceptingHashes.add(paymentHashHex);
+  try {
+    const locked = await loadEscrowFromStorage(paymentHashHex);
+    recordPaymentRequest({
+      paymentHash: paymentHashHex,
+      locked,
+      bolt11: opts?.bolt11,
+      transactionHash: _transactionHash,
+      requestedAmountSats: opts?.amountSats,
+    });
+    return locked;
+  } catch (err) {
+    acceptingHashes.delete(paymentHashHex);
+    throw err;
+  }
+}
 
 export async function processPaymentRequest(paymentHashHex, _transactionHash, opts = {}) {
-  const locked = await loadEscrowFromStorage(paymentHashHex);
-  recordPaymentRequest({
-    paymentHash: paymentHashHex,
-    locked,
-    bolt11: opts?.bolt11,
-    transactionHash: _transactionHash,
-  });
+  const locked = await acceptPaymentRequest(paymentHashHex, _transactionHash, opts);
+  return runPaymentRequest(locked, opts);
+}
+
+export async function runPaymentRequest(locked, opts = {}) {
+  const paymentHashHex = locked.paymentHashHex;
+  // processEscrowPayment takes over the reservation synchronously, before its first await
+  acceptingHashes.delete(paymentHashHex);
   try {
     const result = await processEscrowPayment(locked, opts);
     return {
@@ -42,19 +87,20 @@ export async function processPaymentRequest(paymentHashHex, _transactionHash, op
       starknet: result.starknet,
     };
   } catch (err) {
-    if (!err?._paymentLogged) recordPaymentError(paymentHashHex, err);
+    // A concurrent attempt owns the record; marking it as errored would mislead pollers
+    if (!err?._paymentLogged && err?.code !== 'payment_inflight') recordPaymentError(paymentHashHex, err);
     throw err;
   }
 }
 
-export async function processEscrowPayment(locked, { bolt11 } = {}) {
+export async function processEscrowPayment(locked, { bolt11, amountSats, quoteId } = {}) {
   const paymentHashHex = locked.paymentHashHex;
 
   if (processedHashes.has(paymentHashHex)) {
     markPaymentAlreadyClaimed(paymentHashHex);
     return { status: 'already_claimed', invoice: null, lightning: { status: 'skipped', reason: 'already_claimed' }, starknet: { status: 'skipped' } };
   }
-  if (inflightHashes.has(paymentHashHex)) {
+  if (isPaymentInflight(paymentHashHex)) {
     const e = new Error('Payment processing already in progress for this hash');
     e.status = 409; e.code = 'payment_inflight';
     throw e;
@@ -75,6 +121,7 @@ export async function processEscrowPayment(locked, { bolt11 } = {}) {
 
     // Determine invoice amount and enforce hash match
     let invoiceAmount = null;
+    let amountless = false;
     if (invoice) {
       const invoiceMsat = parseMsat(invoice.amount_msat) ?? parseMsat(invoice.amount_received_msat) ?? parseMsat(invoice.paid_msat);
       if (invoiceMsat !== null) {
@@ -86,17 +133,37 @@ export async function processEscrowPayment(locked, { bolt11 } = {}) {
         const satCandidates = [invoice.amount_sats, invoice.amount_sat];
         for (const v of satCandidates) { if (v !== null && v !== undefined) { try { invoiceAmount = BigInt(String(v)); break; } catch {} } }
       }
-      if (invoiceAmount === null) { const e = new Error('Invoice does not report an amount'); e.status = 409; e.code = 'invoice_missing_amount'; throw e; }
+      amountless = invoiceAmount === null;
     } else {
-      const decoded = decodeBolt11Strict(bolt11);
+      const decoded = await decodePaymentRequest(bolt11, { allowAmountless: true });
       if (decoded.paymentHashNo0x !== paymentHashHex) {
-        const e = new Error('BOLT11 payment hash does not match locked hash'); e.status = 409; e.code = 'hash_mismatch'; e.details = { locked_hash: paymentHashHex, bolt11_hash: decoded.paymentHashNo0x }; throw e;
+        const e = new Error('Invoice payment hash does not match locked hash'); e.status = 409; e.code = 'hash_mismatch'; e.details = { locked_hash: paymentHashHex, bolt11_hash: decoded.paymentHashNo0x }; throw e;
       }
       invoiceAmount = decoded.amountSats;
+      amountless = invoiceAmount === null;
     }
 
-    if (invoiceAmount !== locked.amount) {
-      const e = new Error('Locked amount does not match invoice amount'); e.status = 409; e.code = 'amount_mismatch'; e.details = { locked_amount: locked.amount.toString(), invoice_amount: invoiceAmount.toString() }; throw e;
+    // Amountless invoices are paid for the amount in the quote the lock was made against; without a quote
+    // the whole lock goes to the payee. The amount in the request body is only ever checked, never trusted.
+    const quote = findRoutingQuote(paymentHashHex, { quoteId, lockedAt: locked.lockedAt });
+    if (amountless) {
+      invoiceAmount = quote ? BigInt(quote.amount_sats) : locked.amount;
+    }
+    if (amountSats !== undefined && amountSats !== null && amountSats !== invoiceAmount) {
+      const e = new Error('Requested amount does not match invoice amount'); e.status = 409; e.code = 'amount_mismatch'; e.details = { requested_amount: amountSats.toString(), invoice_amount: invoiceAmount.toString() }; throw e;
+    }
+
+    // Anything locked above the invoice amount must be a routing fee the payer was quoted before locking
+    let routingFeeSats = null;
+    if (locked.amount !== invoiceAmount) {
+      const quoteMatches = quote
+        && locked.amount > invoiceAmount
+        && BigInt(quote.amount_sats) === invoiceAmount
+        && BigInt(quote.total_sats) === locked.amount;
+      if (!quoteMatches) {
+        const e = new Error('Locked amount does not match invoice amount plus quoted routing fee'); e.status = 409; e.code = 'amount_mismatch'; e.details = { locked_amount: locked.amount.toString(), invoice_amount: invoiceAmount.toString(), quote_id: quoteId ?? null, quoted_total: quote?.total_sats ?? null }; throw e;
+      }
+      routingFeeSats = BigInt(quote.fee_sats);
     }
 
     if (invoice) {
@@ -107,13 +174,15 @@ export async function processEscrowPayment(locked, { bolt11 } = {}) {
         amount_sats: invoiceAmount.toString(),
         bolt11: invoiceBolt11,
         source: 'cln',
+        amountless,
       });
     } else {
       recordInvoiceDetails(paymentHashHex, {
         status: 'paid',
         amount_sats: invoiceAmount.toString(),
         bolt11,
-        source: 'external',
+        source: isBolt12Invoice(bolt11) ? 'bolt12_offer' : 'external',
+        amountless,
       });
     }
 
@@ -123,9 +192,13 @@ export async function processEscrowPayment(locked, { bolt11 } = {}) {
     let lightningStatus = alreadyPaid ? 'already_paid' : 'paid';
 
     if (!alreadyPaid) {
+      assertEscrowOutlivesSettlement(locked);
       const payTarget = invoice ? (invoice.bolt11 || invoice.payreq) : bolt11;
       try {
-        payResult = await payInvoice(payTarget);
+        payResult = await payInvoice(payTarget, {
+          ...(amountless ? { amountMsat: invoiceAmount * MSATS_PER_SAT } : {}),
+          ...(routingFeeSats !== null ? { maxFeeMsat: routingFeeSats * MSATS_PER_SAT } : {}),
+        });
       } catch (err) {
         recordLightningFailure(paymentHashHex, err);
         if (err && typeof err === 'object') err._paymentLogged = true;
@@ -137,8 +210,8 @@ export async function processEscrowPayment(locked, { bolt11 } = {}) {
         if (paidHash && paidHash !== paymentHashHex) { const e = new Error('Paid invoice hash differs from locked hash'); e.status = 502; e.code = 'lightning_payment_hash_mismatch'; e.details = { locked_hash: paymentHashHex, paid_hash: paidHash }; throw e; }
         const paidMsat = parseMsat(payResult?.amount_msat);
         if (paidMsat !== null) {
-          const expectedMsat = locked.amount * MSATS_PER_SAT;
-          if (paidMsat !== expectedMsat) { const e = new Error('Paid msats differ from locked amount'); e.status = 502; e.code = 'lightning_payment_amount_mismatch'; e.details = { expected_msat: expectedMsat.toString(), paid_msat: paidMsat.toString() }; throw e; }
+          const expectedMsat = invoiceAmount * MSATS_PER_SAT;
+          if (paidMsat !== expectedMsat) { const e = new Error('Paid msats differ from invoice amount'); e.status = 502; e.code = 'lightning_payment_amount_mismatch'; e.details = { expected_msat: expectedMsat.toString(), paid_msat: paidMsat.toString() }; throw e; }
         }
       } catch (err) {
         recordLightningFailure(paymentHashHex, err);
@@ -202,3 +275,58 @@ export async function processEscrowPayment(locked, { bolt11 } = {}) {
     inflightHashes.delete(paymentHashHex);
   }
 }
+
+// Returns the user's lock through operator_refund once CLN confirms the Lightning payment failed,
+// rather than leaving the funds stuck until the escrow expires. `requesterAddress` must already be
+// verified (signed request) and has to be the escrow's user.
+export async function cancelFailedPayment(paymentHashHex, requesterAddress) {
+  if (isPaymentInflight(paymentHashHex)) {
+    const e = new Error('Payment processing already in progress for this hash'); e.status = 409; e.code = 'payment_inflight'; throw e;
+  }
+  const entry = getPaymentByHash(paymentHashHex);
+  if (!entry) {
+    const e = new Error('No payment recorded for this hash'); e.status = 404; e.code = 'payment_not_found'; throw e;
+  }
+  if (entry.lightning?.status !== 'failed' && entry.status !== 'refunded') {
+    const e = new Error('Only a failed Lightning payment can be cancelled'); e.status = 409; e.code = 'payment_not_failed'; e.details = { status: entry.status ?? null, lightning_status: entry.lightning?.status ?? null }; throw e;
+  }
+
+  // Holding the hash keeps a retried /pay from starting a new attempt while the refund is in flight
+  inflightHashes.add(paymentHashHex);
+  try {
+    const position = await readEscrowPosition(paymentHashHex);
+    if (!position.user || BigInt(position.user) !== BigInt(requesterAddress)) {
+      const e = new Error('Only the account that locked the payment can cancel it'); e.status = 403; e.code = 'payment_not_owned'; throw e;
+    }
+    if (position.phase === 'Refunded') {
+      const refunded = entry.status === 'refunded' ? entry : recordEscrowRefund(paymentHashHex, { txHash: null, position });
+      return { status: 'refunded', refund_tx_hash: refunded.starknet?.refund_tx_hash || null, already_refunded: true };
+    }
+    if (position.phase !== 'Locked') {
+      const e = new Error(`Escrow is ${position.phase}, not Locked`); e.status = 409; e.code = 'escrow_not_locked'; throw e;
+    }
+
+    // lightning.status is also 'failed' for errors raised before paying (bad invoice, amount mismatch),
+    // so only CLN's own record of attempts that all failed counts as a definite failure
+    const pays = await listPayAttempts(paymentHashHex);
+    if (pays.length === 0) {
+      const e = new Error('CLN has no payment attempt for this hash; retry the payment instead'); e.status = 409; e.code = 'lightning_not_attempted'; throw e;
+    }
+    if (pays.some((pay) => ['complete', 'completed', 'paid', 'succeeded'].includes(pay.status))) {
+      const e = new Error('Lightning payment succeeded; the escrow will be claimed instead'); e.status = 409; e.code = 'lightning_paid'; throw e;
+    }
+    if (!pays.every((pay) => pay.status === 'failed')) {
+      const e = new Error('Lightning payment still has pending parts'); e.status = 409; e.code = 'lightning_pending'; throw e;
+    }
+
+    let refundResult;
+    try {
+      refundResult = await requestRefund(paymentHashHex);
+    } catch (err) {
+      const e = new Error(err?.message || 'Operator refund failed'); e.status = 502; e.code = 'refund_failed'; e.details = err?.details ?? null; throw e;
+    }
+    return { status: 'refunded', refund_tx_hash: refundResult?.tx_hash || null, already_refunded: false };
+  } finally {
+    inflightHashes.delete(paymentHashHex);
+  }
+}
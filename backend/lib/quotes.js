@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+
+import {
+  LN_MAX_FEE_PERCENT,
+  LN_QUOTE_LOCK_GRACE_SECONDS,
+  LN_QUOTE_RETENTION_SECONDS,
+  LN_QUOTE_TTL_SECONDS,
+  MSATS_PER_SAT,
+} from './config.js';
+import { clnCall, findInvoice } from './cln.js';
+import { decodePaymentRequest } from './invoices.js';
+import { getDB, withDB } from './localStore.js';
+
+const ROUTE_RISK_FACTOR = 10;
+
+function ceilMsatToSats(msat) {
+  return (msat + MSATS_PER_SAT - 1n) / MSATS_PER_SAT;
+}
+
+// Used when route-finding can't see the payee (e.g. private channels behind route hints)
+function feeCapSats(amountSats) {
+  if (!Number.isFinite(LN_MAX_FEE_PERCENT) || LN_MAX_FEE_PERCENT <= 0) return 0n;
+  const basisPoints = BigInt(Math.round(LN_MAX_FEE_PERCENT * 100));
+  return (amountSats * basisPoints + 9_999n) / 10_000n;
+}
+
+async function estimateRouteFeeSats(bolt11, amountSats) {
+  const decoded = await clnCall('decode', { string: bolt11 });
+  const payee = decoded?.payee || decoded?.invoice_node_id;
+  if (!payee) return { feeSats: feeCapSats(amountSats), source: 'fee_cap' };
+
+  const amountMsat = amountSats * MSATS_PER_SAT;
+  try {
+    const res = await clnCall('getroute', { id: payee, amount_msat: amountMsat.toString(), riskfactor: ROUTE_RISK_FACTOR });
+    const firstHop = Array.isArray(res.route) ? res.route[0] : null;
+    const firstHopMsat = firstHop ? BigInt(String(firstHop.amount_msat).replace(/msat$/, '')) : null;
+    if (firstHopMsat === null || firstHopMsat < amountMsat) throw new Error('getroute returned no usable route');
+    return { feeSats: ceilMsatToSats(firstHopMsat - amountMsat), source: 'getroute' };
+  } catch {
+    return { feeSats: feeCapSats(amountSats), source: 'fee_cap' };
+  }
+}
+
+/**
+ * Quotes the Lightning routing fee for a BOLT11 or BOLT12 invoice so the payer can lock `amount + fee`.
+ * Every quote is kept under its own id, so a later quote for the same hash can't replace the one a lock used.
+ */
+export async function createRoutingQuote(bolt11, { amountSats } = {}) {
+  const decoded = await decodePaymentRequest(bolt11, { allowAmountless: true });
+  const invoiceAmount = decoded.amountSats ?? amountSats ?? null;
+  if (invoiceAmount === null) {
+    const e = new Error('Invoice has no amount; provide amount_sat'); e.status = 400; e.code = 'amount_required'; throw e;
+  }
+  if (decoded.amountSats !== null && amountSats !== undefined && amountSats !== null && amountSats !== decoded.amountSats) {
+    const e = new Error('Requested amount does not match invoice amount'); e.status = 409; e.code = 'amount_mismatch'; throw e;
+  }
+
+  // Our own invoices settle internally, no routing involved
+  const ownInvoice = await findInvoice(decoded.paymentHashNo0x);
+  const { feeSats, source } = ownInvoice ? { feeSats: 0n, source: 'internal' } : await estimateRouteFeeSats(bolt11.trim(), invoiceAmount);
+
+  const createdAt = Math.floor(Date.now() / 1000);
+  const quote = {
+    quote_id: `q-${createdAt}-${crypto.randomBytes(3).toString('hex')}`,
+    payment_hash: decoded.paymentHashNo0x,
+    amount_sats: invoiceAmount.toString(),
+    fee_sats: feeSats.toString(),
+    total_sats: (invoiceAmount + feeSats).toString(),
+    source,
+    created_at: createdAt,
+    expires_at: createdAt + LN_QUOTE_TTL_SECONDS,
+  };
+
+  withDB((db) => {
+    db.quotes ||= {};
+    for (const [quoteId, stored] of Object.entries(db.quotes)) {
+      // Entries keyed by payment hash predate quote ids and carry no usable id
+      if (stored?.quote_id !== quoteId || Number(stored.expires_at) + LN_QUOTE_RETENTION_SECONDS < createdAt) {
+        delete db.quotes[quoteId];
+      }
+    }
+    db.quotes[quote.quote_id] = quote;
+  });
+  return quote;
+}
+
+// A lock honours a quote made before it and signed inside the quote window (plus the confirmation grace period)
+function quoteCoversLock(quote, paymentHashHex, lockedAt) {
+  return quote.payment_hash === paymentHashHex
+    && BigInt(quote.created_at) <= lockedAt
+    && BigInt(quote.expires_at) + BigInt(LN_QUOTE_LOCK_GRACE_SECONDS) >= lockedAt;
+}
+
+/**
+ * The quote a lock was made against. The client must name it by `quoteId`; a quote made after the lock
+ * or for another hash is never accepted.
+ */
+export function findRoutingQuote(paymentHashHex, { quoteId, lockedAt }) {
+  if (!quoteId) return null;
+  const quote = getDB()?.quotes?.[quoteId];
+  return quote && quoteCoversLock(quote, paymentHashHex.toLowerCase(), lockedAt) ? { ...quote } : null;
+}
@@ -0,0 +1,74 @@
+import { REQUEST_SIGNATURE_MAX_AGE_SECONDS } from './config.js';
+import { provider } from './starknet.js';
+import { normalizeStarknet } from './utils.js';
+
+let chainIdPromise = null;
+
+function getChainId() {
+  if (!chainIdPromise) {
+    chainIdPromise = provider.getChainId().catch((err) => {
+      chainIdPromise = null;
+      throw err;
+    });
+  }
+  return chainIdPromise;
+}
+
+// SNIP-12 message the app signs for account-scoped requests; the frontend builds the same structure.
+export function buildSignedRequestTypedData({ action, subject, timestamp, chainId }) {
+  return {
+    types: {
+      StarknetDomain: [
+        { name: 'name', type: 'shortstring' },
+        { name: 'version', type: 'shortstring' },
+        { name: 'chainId', type: 'shortstring' },
+        { name: 'revision', type: 'shortstring' },
+      ],
+      Request: [
+        { name: 'action', type: 'shortstring' },
+        { name: 'subject', type: 'string' },
+        { name: 'timestamp', type: 'u128' },
+      ],
+    },
+    primaryType: 'Request',
+    domain: { name: 'PaySat', version: '1', chainId, revision: '1' },
+    message: { action, subject, timestamp: String(timestamp) },
+  };
+}
+
+/**
+ * Checks that the body's `signature` was made by `starknet_address` over (action, subject, timestamp),
+ * using the account contract's own validation. Returns the normalised address.
+ * The timestamp window limits replays; the actions guarded this way are idempotent.
+ */
+export async function verifySignedRequest(body, { action, subject }) {
+  const address = normalizeStarknet(body?.starknet_address);
+  if (!address) {
+    const e = new Error('starknet_address is required (0x-prefixed hex)'); e.status = 400; e.code = 'invalid_starknet_address'; throw e;
+  }
+  const timestamp = Number(body?.timestamp);
+  if (!Number.isInteger(timestamp) || timestamp <= 0) {
+    const e = new Error('timestamp must be unix seconds'); e.status = 400; e.code = 'invalid_timestamp'; throw e;
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > REQUEST_SIGNATURE_MAX_AGE_SECONDS) {
+    const e = new Error('Signed request is too old or too far in the future'); e.status = 401; e.code = 'signature_expired'; throw e;
+  }
+  const signature = body?.signature;
+  if (!Array.isArray(signature) || signature.length === 0 || !signature.every((part) => typeof part === 'string' && /^(0x[0-9a-fA-F]+|\d+)$/.test(part))) {
+    const e = new Error('signature must be an array of felts'); e.status = 400; e.code = 'invalid_signature'; throw e;
+  }
+
+  const chainId = await getChainId();
+  const typedData = buildSignedRequestTypedData({ action, subject, timestamp, chainId });
+  let valid;
+  try {
+    valid = await provider.verifyMessageInStarknet(typedData, signature, address);
+  } catch (err) {
+    // Undeployed accounts have no is_valid_signature to call
+    const e = new Error('Unable to verify the signature; the account must be deployed'); e.status = 401; e.code = 'signature_unverifiable'; e.details = { reason: err?.message || String(err) }; throw e;
+  }
+  if (!valid) {
+    const e = new Error('Signature does not match starknet_address'); e.status = 401; e.code = 'invalid_signature'; throw e;
+  }
+  return address;
+}
@@ -14,6 +14,7 @@ import {
   hexToByteArrayStruct,
   paymentHashToU256Parts,
   phaseIsLocked,
+  escrowPhaseName,
   toBigIntAmount,
   normalizeHex,
   normalizeStarknet,
@@ -23,6 +24,7 @@ import {
   markStarknetClaimQueued,
   markStarknetClaimSuccess,
   markStarknetClaimFailure,
+  recordEscrowRefund,
 } from './localStoreHelpers.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -125,6 +127,19 @@ export async function loadEscrowFromStorage(paymentHashHexNoPrefix) {
   return { user, hash: hashU256, paymentHashHex: paymentHashHexNoPrefix, amount, expiresAt, lockedAt, blockNumber: null, txHash: null };
 }
 
+// Unlike loadEscrowFromStorage this accepts any phase, e.g. to confirm a refund landed.
+export async function readEscrowPosition(paymentHashHexNoPrefix) {
+  const hashU256 = paymentHashToU256Parts(paymentHashHexNoPrefix);
+  const pos = await escrowContract.get_escrow(hashU256);
+  return {
+    phase: escrowPhaseName(pos?.phase),
+    user: pos?.user !== undefined && pos?.user !== null ? normalizeHex(pos.user).toLowerCase() : null,
+    amount: toBigIntAmount(pos?.amount),
+    expiresAt: BigInt(pos?.expires_at ?? 0),
+    lockedAt: BigInt(pos?.locked_at ?? 0),
+  };
+}
+
 export async function claimOnStarknet(paymentHashHexNoPrefix, preimageHex, escrowWithSigner) {
   const account = escrowWithSigner?.providerOrAccount || operatorAccountRef;
   if (!account || typeof account.execute !== 'function') {
@@ -169,6 +184,38 @@ export async function claimOnStarknet(paymentHashHexNoPrefix, preimageHex, escro
   }
 }
 
+// Returns a still-locked escrow to its owner before expiry, once the Lightning side is known to have failed.
+export async function operatorRefundOnStarknet(paymentHashHexNoPrefix, escrowWithSigner) {
+  const account = escrowWithSigner?.providerOrAccount || operatorAccountRef;
+  if (!account || typeof account.execute !== 'function') {
+    throw new Error('Operator account unavailable for refund');
+  }
+  setOperatorAccount(account);
+
+  const locked = await loadEscrowFromStorage(paymentHashHexNoPrefix);
+  const calldata = CallData.compile([locked.hash]);
+  Object.defineProperty(calldata, '__compiled__', { value: true, enumerable: false });
+
+  const call = {
+    contractAddress: STARKNET_ESCROW_ADDRESS,
+    entrypoint: 'operator_refund',
+    calldata,
+  };
+
+  const submitResult = await withNonce(`operator_refund:${paymentHashHexNoPrefix}`, async (accountRef, nonce) => {
+    const response = await accountRef.execute(call, { nonce: toHexNonce(nonce) });
+    const tx = response?.transaction_hash || response;
+    console.log(nowIso(), 'Operator refund transaction sent', paymentHashHexNoPrefix, tx);
+    return { txHash: tx };
+  });
+
+  await provider.waitForTransaction(submitResult.txHash);
+  console.log(nowIso(), 'Operator refund confirmed', paymentHashHexNoPrefix);
+  recordEscrowRefund(paymentHashHexNoPrefix, { txHash: submitResult.txHash, position: locked });
+
+  return { txHash: submitResult.txHash, paymentHashHex: paymentHashHexNoPrefix };
+}
+
 export function satsToTokenUnits(amountSats) {
   const sats = parseSatsValue(amountSats);
   if (sats === null) throw new Error('Unable to parse sat amount for transfer');
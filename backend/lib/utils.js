@@ -49,6 +49,16 @@ export function parseSatsValue(value) {
   return null;
 }
 
+export function parsePositiveSats(value, field = 'amount_sat') {
+  let sats;
+  if (typeof value === 'bigint') sats = value;
+  else if (typeof value === 'number' && Number.isInteger(value)) sats = BigInt(value);
+  else if (typeof value === 'string' && /^\d+$/.test(value.trim())) sats = BigInt(value.trim());
+  else throw new Error(`${field} must be a positive integer value`);
+  if (sats <= 0n) throw new Error(`${field} must be greater than zero`);
+  return sats;
+}
+
 export const UINT128 = 2n ** 128n;
 export function u256ToBigInt(low, high) {
   return BigInt(low) + BigInt(high) * UINT128;
@@ -101,6 +111,29 @@ export function phaseIsLocked(phase) {
   return false;
 }
 
+const ESCROW_PHASES = ['None', 'Locked', 'Claimed', 'Refunded'];
+
+export function escrowPhaseName(phase) {
+  if (phase === null || phase === undefined) return 'None';
+  if (typeof phase === 'object') {
+    const v = phase.variant;
+    if (typeof v === 'string') return ESCROW_PHASES.includes(v) ? v : 'None';
+    if (v && typeof v === 'object') {
+      const active = ESCROW_PHASES.find((name) => v[name] !== undefined);
+      if (active) return active;
+    }
+    const direct = ESCROW_PHASES.find((name) => Object.prototype.hasOwnProperty.call(phase, name) && phase[name] !== undefined);
+    return direct || 'None';
+  }
+  if (typeof phase === 'string') {
+    const match = ESCROW_PHASES.find((name) => name.toLowerCase() === phase.toLowerCase());
+    if (match) return match;
+    try { return ESCROW_PHASES[Number(BigInt(phase))] || 'None'; } catch { return 'None'; }
+  }
+  if (typeof phase === 'number' || typeof phase === 'bigint') return ESCROW_PHASES[Number(phase)] || 'None';
+  return 'None';
+}
+
 export function hexToByteArrayStruct(hex) {
   if (hex === undefined || hex === null) {
     throw new Error('hexToByteArrayStruct: preimage is required');
@@ -5,6 +5,7 @@ import { nowIso } from './lib/config.js';
 import {
   bootstrapOperator,
   claimOnStarknet,
+  operatorRefundOnStarknet,
   transferBtcFromOperator,
 } from './lib/starknet.js';
 import { normalizePaymentHash } from './lib/utils.js';
@@ -64,6 +65,31 @@ app.post('/claim', async (req, res) => {
   }
 });
 
+app.post('/refund', async (req, res) => {
+  const { payment_hash, paymentHash } = req.body || {};
+  const rawPaymentHash = payment_hash || paymentHash;
+
+  if (!rawPaymentHash || typeof rawPaymentHash !== 'string') {
+    return res.status(400).json({ error: 'invalid_payment_hash', message: 'payment_hash is required' });
+  }
+
+  let normalizedHash;
+  try {
+    normalizedHash = normalizePaymentHash(rawPaymentHash);
+  } catch (err) {
+    return res.status(400).json({ error: 'invalid_payment_hash', message: err?.message || String(err) });
+  }
+
+  try {
+    const { escrowWithSigner } = await ensureReady();
+    const result = await operatorRefundOnStarknet(normalizedHash, escrowWithSigner);
+    return res.json({ status: 'refunded', tx_hash: result?.txHash });
+  } catch (err) {
+    console.error(nowIso(), 'Refund request failed', normalizedHash, err?.message || err);
+    return res.status(500).json({ error: 'refund_failed', message: err?.message || 'Failed to execute refund' });
+  }
+});
+
 app.post('/transfer', async (req, res) => {
   const { recipient_address, recipientAddress, amount_sats, amountSats } = req.body || {};
   const target = recipient_address || recipientAddress;
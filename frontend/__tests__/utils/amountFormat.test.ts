@@ -0,0 +1,42 @@
+import { formatAmount, parseAmount } from "../../app/utils/amountFormat";
+
+describe("parseAmount", () => {
+  it("parses plain amounts in every unit", () => {
+    expect(parseAmount("0.0015", "btc", "en-US")).toBe(150000n);
+    expect(parseAmount("1500", "bits", "en-US")).toBe(150000n);
+    expect(parseAmount("150000", "sats", "en-US")).toBe(150000n);
+  });
+
+  it("accepts grouping only between whole thousands groups", () => {
+    expect(parseAmount("1,234,567", "sats", "en-US")).toBe(1234567n);
+    expect(parseAmount("1,500.25", "bits", "en-US")).toBe(150025n);
+    expect(parseAmount("1,2,3", "sats", "en-US")).toBeNull();
+    expect(parseAmount("12,34", "sats", "en-US")).toBeNull();
+    expect(parseAmount("1,234,5.6", "bits", "en-US")).toBeNull();
+  });
+
+  it("reads a lone comma that can't be grouping as the decimal point", () => {
+    expect(parseAmount("0,5", "btc", "en-US")).toBe(50000000n);
+    expect(parseAmount("1,25", "bits", "en-US")).toBe(125n);
+    expect(parseAmount("0,5", "sats", "en-US")).toBeNull();
+  });
+
+  it("follows locales that group with a period", () => {
+    expect(parseAmount("1.234,5", "bits", "de-DE")).toBe(123450n);
+    expect(parseAmount("0,00015", "btc", "de-DE")).toBe(15000n);
+    expect(parseAmount("1.23,5", "bits", "de-DE")).toBeNull();
+    expect(parseAmount("1,2,3", "bits", "de-DE")).toBeNull();
+  });
+
+  it("rejects more precision than the unit holds", () => {
+    expect(parseAmount("0.000000001", "btc", "en-US")).toBeNull();
+    expect(parseAmount("1.234", "bits", "en-US")).toBeNull();
+    expect(parseAmount("", "sats", "en-US")).toBeNull();
+  });
+
+  it("round-trips formatted amounts", () => {
+    const formatted = formatAmount(123456789n, "bits", { withUnit: false, locale: "en-US" });
+    expect(formatted).toBe("1,234,567.89");
+    expect(parseAmount(formatted, "bits", "en-US")).toBe(123456789n);
+  });
+});
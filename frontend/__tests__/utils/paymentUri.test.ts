@@ -0,0 +1,92 @@
+import { getPaymentTargetValue, parsePaymentUri } from "../../app/utils/paymentUri";
+
+const INVOICE =
+  "lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh";
+const OFFER = "lno1pg257enxv4ezqcneype82um50ynhxgrwdajx283qfwdpl28qqmc78ymlvhmxcsywdk5wrjnj36jryg488qwlrnzyjczs";
+const LNURL =
+  "lnurl1dp68gurn8ghj7um9wfmxjcm99e3k7mf0v9cxj0m385ekvcenxc6r2c35xvukxefcv5mkvv34x5ekzd3ev56nyd3hxqurzepexejxxepnxscrvwfnv9nxzcn9xq6xyefhvgcxxcmyxymnserxfq5fns";
+
+describe("parsePaymentUri", () => {
+  it("accepts a bare BOLT11 invoice", () => {
+    expect(parsePaymentUri(INVOICE)).toEqual({ kind: "bolt11", invoice: INVOICE });
+  });
+
+  it("strips the lightning: prefix in either spelling", () => {
+    expect(parsePaymentUri(`lightning:${INVOICE}`)).toEqual({ kind: "bolt11", invoice: INVOICE });
+    expect(parsePaymentUri(`LIGHTNING://${INVOICE}`)).toEqual({ kind: "bolt11", invoice: INVOICE });
+  });
+
+  it("lowercases uppercase bech32 from QR codes", () => {
+    expect(parsePaymentUri(`LIGHTNING:${INVOICE.toUpperCase()}`)).toEqual({
+      kind: "bolt11",
+      invoice: INVOICE,
+    });
+    expect(parsePaymentUri(OFFER.toUpperCase())).toEqual({ kind: "offer", offer: OFFER });
+  });
+
+  it("ignores surrounding and embedded whitespace", () => {
+    expect(parsePaymentUri(`  ${INVOICE.slice(0, 40)}\n${INVOICE.slice(40)}  `)).toEqual({
+      kind: "bolt11",
+      invoice: INVOICE,
+    });
+  });
+
+  it("reads the lightning parameter of a BIP21 URI in either position", () => {
+    const address = "bc1qylh3u67j673h6y6alv70m0pl2yz53tzhvxgg7u";
+    expect(parsePaymentUri(`bitcoin:${address}?lightning=${INVOICE}&amount=0.0025`)).toEqual({
+      kind: "bolt11",
+      invoice: INVOICE,
+    });
+    const unified = `BITCOIN:${address.toUpperCase()}?amount=0.0025&label=Coffee&LIGHTNING=${INVOICE.toUpperCase()}`;
+    expect(parsePaymentUri(unified)).toEqual({ kind: "bolt11", invoice: INVOICE });
+  });
+
+  it("reads a BOLT12 offer from the lno parameter of a BIP21 URI", () => {
+    expect(parsePaymentUri(`bitcoin:?lno=${OFFER}`)).toEqual({ kind: "offer", offer: OFFER });
+  });
+
+  it("rejects BIP21 URIs without a Lightning payment", () => {
+    expect(() => parsePaymentUri("bitcoin:bc1qylh3u67j673h6y6alv70m0pl2yz53tzhvxgg7u?amount=1")).toThrow(
+      "On-chain bitcoin payments are not supported",
+    );
+    expect(() => parsePaymentUri("bitcoin:bc1qylh3u67j673h6y6alv70m0pl2yz53tzhvxgg7u?lightning=nope")).toThrow(
+      "The bitcoin URI contains an unrecognised Lightning payment",
+    );
+  });
+
+  it("accepts LNURL in bech32 and lnurlp:// form", () => {
+    expect(parsePaymentUri(`lightning:${LNURL.toUpperCase()}`)).toEqual({ kind: "lnurl", lnurl: LNURL });
+    expect(parsePaymentUri("lnurlp://example.com/.well-known/lnurlp/alice")).toEqual({
+      kind: "lnurl",
+      lnurl: "lnurlp://example.com/.well-known/lnurlp/alice",
+    });
+  });
+
+  it("accepts Lightning addresses, including URI-encoded ones", () => {
+    expect(parsePaymentUri("Alice@Example.com")).toEqual({
+      kind: "lightning-address",
+      address: "alice@example.com",
+    });
+    expect(parsePaymentUri("lightning:alice%40example.com")).toEqual({
+      kind: "lightning-address",
+      address: "alice@example.com",
+    });
+  });
+
+  it("rejects empty input and garbage", () => {
+    expect(() => parsePaymentUri("   ")).toThrow("Payment request is empty");
+    expect(() => parsePaymentUri("hello world")).toThrow("Unrecognised payment request");
+    expect(() => parsePaymentUri("lightning:")).toThrow("Unrecognised payment request");
+    expect(() => parsePaymentUri("https://example.com/pay")).toThrow("Unrecognised payment request");
+    expect(() => parsePaymentUri("alice@localhost")).toThrow("Unrecognised payment request");
+  });
+});
+
+describe("getPaymentTargetValue", () => {
+  it("returns the payable string for every target kind", () => {
+    expect(getPaymentTargetValue(parsePaymentUri(INVOICE))).toBe(INVOICE);
+    expect(getPaymentTargetValue(parsePaymentUri(OFFER))).toBe(OFFER);
+    expect(getPaymentTargetValue(parsePaymentUri(LNURL))).toBe(LNURL);
+    expect(getPaymentTargetValue(parsePaymentUri("bob@example.com"))).toBe("bob@example.com");
+  });
+});
@@ -0,0 +1,11 @@
+import { deepLinkRoute, parseDeepLink } from "./utils/deepLinks";
+
+// Payment links don't map onto file routes; send them to the home screen, which
+// opens the pay or receive flow
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return parseDeepLink(path) ? deepLinkRoute(path) : path;
+  } catch {
+    return path;
+  }
+}
@@ -0,0 +1,506 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import type { Account, ProviderInterface } from "starknet";
+
+import { ESCROW_CONTRACT_ADDRESS, LN_MAX_FEE_PERCENT } from "../config/constants";
+import { useAmountUnit } from "../context/AmountUnit";
+import {
+  lockLightningBatch,
+  parseLightningInvoiceBatch,
+  payLightningBatch,
+  preflightLightningBatch,
+  requoteBatchBeforeLock,
+  type LightningBatchItem,
+  type LightningBatchOutcome,
+  type LightningBatchPreflight,
+} from "../services/batchPayment";
+import { checkEscrowExpiryPolicy, type VaultConfig } from "../services/escrow";
+import {
+  removePendingPayment,
+  savePendingPayment,
+  updatePendingPayment,
+} from "../services/pendingPayments";
+import { authorizeSpend, recordSpend, releaseSpend } from "../services/spendingPolicy";
+import { formatUnits } from "../utils/token/format";
+
+type BatchStage = "idle" | "locking" | "paying" | "complete";
+
+type BatchPayCardProps = {
+  account: Account;
+  provider: ProviderInterface;
+  balanceSats: bigint;
+  vaultConfig: VaultConfig | null;
+  onExit: () => void;
+  onPaid?: () => void;
+};
+
+export const BatchPayCard: React.FC<BatchPayCardProps> = ({
+  account,
+  provider,
+  balanceSats,
+  vaultConfig,
+  onExit,
+  onPaid,
+}) => {
+  const { formatSats } = useAmountUnit();
+  const [input, setInput] = useState("");
+  const [stage, setStage] = useState<BatchStage>("idle");
+  const [preflight, setPreflight] = useState<LightningBatchPreflight | null>(null);
+  const [preflightError, setPreflightError] = useState<string | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<string, LightningBatchOutcome>>({});
+  const [quoteRefreshKey, setQuoteRefreshKey] = useState(0);
+  const preflightRequestRef = useRef(0);
+
+  const parsed = useMemo(() => {
+    if (!input.trim()) return { invoices: [], error: null };
+    try {
+      return { invoices: parseLightningInvoiceBatch(input), error: null };
+    } catch (error) {
+      return {
+        invoices: [],
+        error: error instanceof Error ? error.message : "Invalid invoices",
+      };
+    }
+  }, [input]);
+
+  const expiryProblem = useMemo(() => {
+    if (!vaultConfig) return null;
+    for (const [index, invoice] of parsed.invoices.entries()) {
+      const problem = checkEscrowExpiryPolicy({
+        invoiceExpiresAt: invoice.expiresAt,
+        expiryWindow: vaultConfig.expiryWindow,
+      });
+      if (problem) return `Invoice ${index + 1}: ${problem}`;
+    }
+    return null;
+  }, [parsed.invoices, vaultConfig]);
+
+  useEffect(() => {
+    preflightRequestRef.current += 1;
+    const requestId = preflightRequestRef.current;
+    setPreflight(null);
+    setPreflightError(null);
+
+    if (stage !== "idle" || parsed.invoices.length === 0 || !ESCROW_CONTRACT_ADDRESS) {
+      setIsEstimating(false);
+      return;
+    }
+
+    setIsEstimating(true);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const result = await preflightLightningBatch({
+          account,
+          provider,
+          escrowContractAddress: ESCROW_CONTRACT_ADDRESS,
+          invoices: parsed.invoices,
+        });
+        if (preflightRequestRef.current === requestId) setPreflight(result);
+      } catch (error) {
+        if (preflightRequestRef.current === requestId) {
+          setPreflightError(
+            error instanceof Error ? error.message : "Unable to estimate the batch fees",
+          );
+        }
+      } finally {
+        if (preflightRequestRef.current === requestId) setIsEstimating(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeoutId);
+  }, [account, parsed.invoices, provider, quoteRefreshKey, stage]);
+
+  useEffect(() => {
+    if (!preflight || stage !== "idle") return;
+    // The lock has to land before the earliest routing quote expires
+    const earliestExpiry = Math.min(
+      ...preflight.items.map((item) => item.routingQuote.expiresAt),
+    );
+    const timeoutId = setTimeout(
+      () => setQuoteRefreshKey((key) => key + 1),
+      Math.max((earliestExpiry - 15) * 1000 - Date.now(), 0),
+    );
+    return () => clearTimeout(timeoutId);
+  }, [preflight, stage]);
+
+  const networkFee = preflight?.networkFee ?? null;
+  const totalLockedSats = preflight
+    ? preflight.totalAmountSats + preflight.totalFeeSats
+    : null;
+  const cannotCoverAmount = totalLockedSats !== null && balanceSats < totalLockedSats;
+  const cannotCoverGas = networkFee !== null && !networkFee.canCoverFee;
+  const canSubmit =
+    stage === "idle" &&
+    preflight !== null &&
+    !isEstimating &&
+    !cannotCoverAmount &&
+    !cannotCoverGas &&
+    vaultConfig !== null &&
+    expiryProblem === null;
+
+  const handleSubmit = async () => {
+    if (!preflight || !canSubmit) return;
+    const accountAddress = account.address;
+
+    setSubmitError(null);
+    setOutcomes({});
+    setStage("locking");
+
+    // The whole batch counts as one spend: one confirmation for the combined total
+    try {
+      await authorizeSpend(accountAddress, preflight.totalAmountSats + preflight.totalFeeSats);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Payment was not authorized");
+      setStage("idle");
+      return;
+    }
+
+    // The confirmation can outlast the quotes; lock against fresh ones
+    let items: LightningBatchItem[];
+    try {
+      items = await requoteBatchBeforeLock(preflight.items);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Unable to quote the routing fees");
+      setStage("idle");
+      setQuoteRefreshKey((key) => key + 1);
+      return;
+    }
+
+    // Persisted individually so each hash can be resumed or refunded on its own
+    for (const { invoice, routingQuote } of items) {
+      await savePendingPayment(accountAddress, {
+        paymentHash: invoice.paymentHash,
+        bolt11: invoice.raw,
+        amountSats: routingQuote.amountSats.toString(),
+        amountless: false,
+        quoteId: routingQuote.quoteId,
+        lockTxHash: null,
+        stage: "locking",
+        expiresAt: null,
+      });
+    }
+
+    let transactionHash: string;
+    try {
+      ({ transactionHash } = await lockLightningBatch({
+        account,
+        provider,
+        escrowContractAddress: ESCROW_CONTRACT_ADDRESS,
+        items,
+        maxFee: networkFee?.maxFee,
+      }));
+    } catch (error) {
+      for (const { invoice } of items) {
+        await removePendingPayment(accountAddress, invoice.paymentHash);
+      }
+      setSubmitError(error instanceof Error ? error.message : "Batch lock failed");
+      setStage("idle");
+      return;
+    }
+
+    for (const { invoice, routingQuote } of items) {
+      await updatePendingPayment(accountAddress, invoice.paymentHash, {
+        lockTxHash: transactionHash,
+        stage: "paying",
+      });
+      await recordSpend(accountAddress, invoice.paymentHash, routingQuote.totalSats);
+    }
+
+    setStage("paying");
+    try {
+      const results = await payLightningBatch(
+        items,
+        transactionHash,
+        {
+          onOutcome: (outcome) =>
+            setOutcomes((current) => ({ ...current, [outcome.paymentHash]: outcome })),
+        },
+      );
+      // Sequential on purpose: every pending-payment write rewrites the whole list
+      for (const outcome of results) {
+        if (outcome.ok) {
+          await removePendingPayment(accountAddress, outcome.paymentHash);
+        } else if (outcome.refunded) {
+          await removePendingPayment(accountAddress, outcome.paymentHash);
+          await releaseSpend(accountAddress, outcome.paymentHash);
+        } else {
+          await updatePendingPayment(accountAddress, outcome.paymentHash, {
+            stage: "failed",
+            error: outcome.error,
+          });
+        }
+      }
+    } catch (error) {
+      // The locks are on-chain; the pending list lets the user retry each one
+      const message = error instanceof Error ? error.message : "Batch payment failed";
+      for (const { invoice } of items) {
+        await updatePendingPayment(accountAddress, invoice.paymentHash, {
+          stage: "failed",
+          error: message,
+        });
+      }
+      setSubmitError(message);
+    }
+    setStage("complete");
+    onPaid?.();
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Batch payment</Text>
+      <Text style={styles.helperText}>
+        Paste several BOLT11 invoices, one per line. They are locked together in a
+        single Starknet transaction and paid individually.
+      </Text>
+      <TextInput
+        style={styles.input}
+        multiline
+        placeholder="lnbc…"
+        placeholderTextColor="#94a3b8"
+        value={input}
+        onChangeText={setInput}
+        editable={stage === "idle"}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {parsed.error ? <Text style={styles.errorText}>{parsed.error}</Text> : null}
+
+      {parsed.invoices.map((invoice, index) => {
+        const outcome = outcomes[invoice.paymentHash];
+        const quote = preflight?.items[index]?.routingQuote;
+        return (
+          <View key={invoice.paymentHash} style={styles.itemRow}>
+            <View style={styles.itemHeader}>
+              <Text style={styles.itemAmount}>
+                {formatSats(invoice.amountSats)}
+              </Text>
+              <Text
+                style={[
+                  styles.itemStatus,
+                  outcome?.ok === true && styles.itemStatusPaid,
+                  outcome?.ok === false && styles.itemStatusFailed,
+                ]}
+              >
+                {outcome
+                  ? outcome.ok
+                    ? "paid"
+                    : outcome.refunded
+                    ? "refunded"
+                    : "failed"
+                  : stage === "paying"
+                  ? "paying"
+                  : quote
+                  ? `+${formatSats(quote.feeSats)} fee`
+                  : ""}
+              </Text>
+            </View>
+            <Text style={styles.hashText} numberOfLines={1}>
+              {`0x${invoice.paymentHash}`}
+            </Text>
+            {outcome && !outcome.ok ? (
+              <Text style={styles.errorText}>{outcome.error}</Text>
+            ) : null}
+          </View>
+        );
+      })}
+
+      {parsed.invoices.length > 0 ? (
+        <View style={styles.summary}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Starknet network fee</Text>
+            {isEstimating ? (
+              <ActivityIndicator size="small" color="#2563eb" />
+            ) : (
+              <Text style={styles.summaryValue}>
+                {networkFee
+                  ? `${formatUnits(networkFee.overallFee, 18)} ${networkFee.feeTokenSymbol}`
+                  : preflight
+                  ? "Estimated after account deployment"
+                  : "—"}
+              </Text>
+            )}
+          </View>
+          {preflight ? (
+            <>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Lightning routing fees</Text>
+                <Text style={styles.summaryValue}>
+                  {`${formatSats(preflight.totalFeeSats)} (limit ${LN_MAX_FEE_PERCENT}%)`}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Total locked</Text>
+                <Text style={styles.summaryValue}>
+                  {formatSats(totalLockedSats)}
+                </Text>
+              </View>
+            </>
+          ) : null}
+        </View>
+      ) : null}
+
+      {preflightError ? <Text style={styles.errorText}>{preflightError}</Text> : null}
+      {expiryProblem ? <Text style={styles.errorText}>{expiryProblem}</Text> : null}
+      {cannotCoverAmount ? (
+        <Text style={styles.errorText}>
+          Insufficient balance to cover the invoices plus routing fees.
+        </Text>
+      ) : null}
+      {cannotCoverGas && networkFee ? (
+        <Text style={styles.errorText}>
+          {`Not enough ${networkFee.feeTokenSymbol} to cover the Starknet network fee.`}
+        </Text>
+      ) : null}
+      {submitError ? <Text style={styles.errorText}>{submitError}</Text> : null}
+
+      {stage === "complete" ? (
+        <Pressable style={styles.secondaryButton} onPress={onExit}>
+          <Text style={styles.secondaryButtonText}>Done</Text>
+        </Pressable>
+      ) : (
+        <>
+          <Pressable
+            style={[styles.primaryButton, !canSubmit && styles.primaryButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {stage === "locking" || stage === "paying" ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {parsed.invoices.length > 0
+                  ? `Pay ${parsed.invoices.length} invoices`
+                  : "Pay invoices"}
+              </Text>
+            )}
+          </Pressable>
+          {stage === "idle" ? (
+            <Pressable style={styles.secondaryButton} onPress={onExit}>
+              <Text style={styles.secondaryButtonText}>Pay a single invoice</Text>
+            </Pressable>
+          ) : null}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    padding: 18,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    marginHorizontal: 2,
+    gap: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#0f172a",
+  },
+  helperText: {
+    fontSize: 13,
+    color: "#64748b",
+    lineHeight: 18,
+  },
+  input: {
+    minHeight: 120,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    color: "#0f172a",
+    textAlignVertical: "top",
+  },
+  itemRow: {
+    gap: 4,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f1f5f9",
+  },
+  itemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  itemAmount: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  itemStatus: {
+    fontSize: 13,
+    color: "#475569",
+  },
+  itemStatusPaid: {
+    color: "#15803d",
+    fontWeight: "600",
+  },
+  itemStatusFailed: {
+    color: "#b91c1c",
+    fontWeight: "600",
+  },
+  hashText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  summary: {
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#475569",
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0f172a",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  primaryButton: {
+    borderRadius: 12,
+    backgroundColor: "#2563eb",
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  primaryButtonDisabled: {
+    backgroundColor: "#94a3b8",
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#334155",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
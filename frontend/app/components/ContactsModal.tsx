@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import type { Contact, ContactDestinationType, ContactDraft } from "../services/contacts";
+
+export type ContactsModalProps = {
+  visible: boolean;
+  contacts: Contact[];
+  // Opens straight into the form, e.g. to save the payee of the invoice being paid
+  initialDraft?: ContactDraft | null;
+  onSelect?: (contact: Contact) => void;
+  onSave: (draft: ContactDraft) => Promise<unknown>;
+  onRemove: (contactId: string) => Promise<void>;
+  onClose: () => void;
+};
+
+const DESTINATION_TYPES: { value: ContactDestinationType; label: string; placeholder: string }[] = [
+  { value: "lightning-address", label: "Lightning address", placeholder: "name@domain.com" },
+  { value: "node-pubkey", label: "Node pubkey", placeholder: "02…" },
+  { value: "starknet-address", label: "Starknet address", placeholder: "0x…" },
+];
+
+const EMPTY_DRAFT: ContactDraft = {
+  label: "",
+  destinationType: "lightning-address",
+  destination: "",
+  notes: "",
+};
+
+// Only Lightning addresses resolve to something PayPage can pay; pubkeys and Starknet
+// addresses are kept for labelling history
+export const isPayableContact = (contact: Contact) =>
+  contact.destinationType === "lightning-address";
+
+export const ContactsModal: React.FC<ContactsModalProps> = ({
+  visible,
+  contacts,
+  initialDraft = null,
+  onSelect,
+  onSave,
+  onRemove,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<ContactDraft | null>(initialDraft);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(initialDraft);
+    setError(null);
+  }, [initialDraft, visible]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save contact");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (contactId: string) => {
+    setError(null);
+    try {
+      await onRemove(contactId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to remove contact");
+    }
+  };
+
+  const typeInfo = DESTINATION_TYPES.find((item) => item.value === draft?.destinationType);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{draft ? (draft.id ? "Edit contact" : "New contact") : "Contacts"}</Text>
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={22} color="#475569" />
+            </Pressable>
+          </View>
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {draft ? (
+              <View style={styles.form}>
+                <Text style={styles.label}>Name</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Supplier, teammate…"
+                  placeholderTextColor="#94a3b8"
+                  value={draft.label}
+                  onChangeText={(label) => setDraft({ ...draft, label })}
+                />
+                <Text style={styles.label}>Destination type</Text>
+                <View style={styles.typeRow}>
+                  {DESTINATION_TYPES.map((item) => (
+                    <Pressable
+                      key={item.value}
+                      style={[
+                        styles.typeChip,
+                        draft.destinationType === item.value && styles.typeChipActive,
+                      ]}
+                      onPress={() => setDraft({ ...draft, destinationType: item.value })}
+                    >
+                      <Text
+                        style={[
+                          styles.typeChipText,
+                          draft.destinationType === item.value && styles.typeChipTextActive,
+                        ]}
+                      >
+                        {item.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Text style={styles.label}>Destination</Text>
+                <TextInput
+                  style={styles.input}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  placeholder={typeInfo?.placeholder}
+                  placeholderTextColor="#94a3b8"
+                  value={draft.destination}
+                  onChangeText={(destination) => setDraft({ ...draft, destination })}
+                />
+                <Text style={styles.label}>Notes</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  multiline
+                  placeholder="Optional"
+                  placeholderTextColor="#94a3b8"
+                  value={draft.notes ?? ""}
+                  onChangeText={(notes) => setDraft({ ...draft, notes })}
+                />
+                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                <View style={styles.actions}>
+                  <Pressable style={styles.secondaryButton} onPress={() => setDraft(null)}>
+                    <Text style={styles.secondaryButtonText}>Cancel</Text>
+                  </Pressable>
+                  <Pressable style={styles.primaryButton} onPress={handleSave} disabled={isSaving}>
+                    {isSaving ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <Text style={styles.primaryButtonText}>Save contact</Text>
+                    )}
+                  </Pressable>
+                </View>
+              </View>
+            ) : (
+              <>
+                {contacts.length === 0 ? (
+                  <Text style={styles.metaText}>
+                    Save the Lightning addresses, nodes and Starknet accounts you pay often.
+                  </Text>
+                ) : null}
+                {contacts.map((contact) => {
+                  const canSelect = !!onSelect && isPayableContact(contact);
+                  return (
+                    <View key={contact.id} style={styles.contactRow}>
+                      <Pressable
+                        style={styles.contactBody}
+                        disabled={!canSelect}
+                        onPress={() => onSelect?.(contact)}
+                      >
+                        <Text style={styles.contactLabel}>{contact.label}</Text>
+                        <Text style={styles.contactDestination} numberOfLines={1}>
+                          {contact.destination}
+                        </Text>
+                        {contact.notes ? (
+                          <Text style={styles.metaText} numberOfLines={2}>
+                            {contact.notes}
+                          </Text>
+                        ) : null}
+                      </Pressable>
+                      <Pressable
+                        style={styles.iconButton}
+                        onPress={() =>
+                          setDraft({
+                            id: contact.id,
+                            label: contact.label,
+                            destinationType: contact.destinationType,
+                            destination: contact.destination,
+                            notes: contact.notes ?? "",
+                          })
+                        }
+                      >
+                        <Ionicons name="create-outline" size={18} color="#2563eb" />
+                      </Pressable>
+                      <Pressable style={styles.iconButton} onPress={() => handleRemove(contact.id)}>
+                        <Ionicons name="trash-outline" size={18} color="#b91c1c" />
+                      </Pressable>
+                    </View>
+                  );
+                })}
+                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                <Pressable style={styles.primaryButton} onPress={() => setDraft(EMPTY_DRAFT)}>
+                  <Text style={styles.primaryButtonText}>Add contact</Text>
+                </Pressable>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "#0f172a66",
+  },
+  sheet: {
+    maxHeight: "90%",
+    backgroundColor: "#ffffff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 14,
+  },
+  metaText: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  form: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#0f172a",
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: "top",
+  },
+  typeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  typeChip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  typeChipActive: {
+    backgroundColor: "#eef2ff",
+    borderColor: "#2563eb",
+  },
+  typeChipText: {
+    fontSize: 13,
+    color: "#475569",
+  },
+  typeChipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  contactRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+    paddingBottom: 12,
+  },
+  contactBody: {
+    flex: 1,
+    gap: 2,
+  },
+  contactLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  contactDestination: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  iconButton: {
+    padding: 6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: "#2563eb",
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: "center",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    color: "#475569",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,154 @@
+import React from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+
+import { useAmountUnit } from "../context/AmountUnit";
+import { useFiatPreferences } from "../context/FiatPreferences";
+import {
+  FIAT_CURRENCIES,
+  formatFiatAmount,
+  getExchangeRateProviders,
+  type FiatCurrency,
+} from "../services/exchangeRates";
+import { AMOUNT_UNIT_LABELS, AMOUNT_UNITS } from "../utils/amountFormat";
+import { formatPaymentUpdatedAt } from "../utils/paymentsFormatting";
+
+const CURRENCY_OPTIONS: (FiatCurrency | null)[] = [null, ...FIAT_CURRENCIES];
+
+export const DisplayPreferencesCard: React.FC = () => {
+  const { unit, setUnit } = useAmountUnit();
+  const { currency, providerId, rate, isLoading, error, setCurrency, setProviderId } =
+    useFiatPreferences();
+  const providers = getExchangeRateProviders();
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>Display</Text>
+        {isLoading ? <ActivityIndicator size="small" color="#2563eb" /> : null}
+      </View>
+
+      <Text style={styles.label}>Amount unit</Text>
+      <View style={styles.chipRow}>
+        {AMOUNT_UNITS.map((option) => {
+          const isActive = option === unit;
+          return (
+            <Pressable
+              key={option}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => setUnit(option)}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {AMOUNT_UNIT_LABELS[option]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>Fiat currency</Text>
+
+      <View style={styles.chipRow}>
+        {CURRENCY_OPTIONS.map((option) => {
+          const isActive = option === currency;
+          return (
+            <Pressable
+              key={option ?? "none"}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => setCurrency(option)}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {option ?? "Sats only"}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {currency ? (
+        <>
+          <Text style={styles.label}>Rate source</Text>
+          <View style={styles.chipRow}>
+            {providers.map((provider) => {
+              const isActive = provider.id === providerId;
+              return (
+                <Pressable
+                  key={provider.id}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => setProviderId(provider.id)}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                    {provider.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {rate ? (
+            <Text style={styles.metaText}>
+              {`1 BTC = ${formatFiatAmount(rate.btcPrice, rate.currency)} · updated ${formatPaymentUpdatedAt(rate.fetchedAt)}`}
+            </Text>
+          ) : null}
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+        </>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    padding: 20,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipActive: {
+    backgroundColor: "#eef2ff",
+    borderColor: "#2563eb",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#475569",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+});
@@ -1,68 +1,152 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Keyboard,
   Pressable,
   Share,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   View,
 } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
 import QRCode from "react-native-qrcode-svg";
 
+import { useAmountUnit } from "../context/AmountUnit";
+import { useFiatPreferences } from "../context/FiatPreferences";
+import { useInvoiceStatus } from "../hooks/useInvoiceStatus";
+import type { InvoiceStatus } from "../services/payments";
+import { amountInputKeyboard, describeAmountPrecision } from "../utils/amountFormat";
+import type { DeepLink } from "../utils/deepLinks";
+
 export type InvoiceRequestCardProps = {
   accountAddress: string;
+  // paysat://invoice?amount_sat= link that should pre-fill the form
+  deepLink?: DeepLink | null;
 };
 
 type InvoiceResponse = {
   label: string;
   bolt11: string;
   expires_at: number;
+  memo?: string | null;
   desc_visible_to_payer: boolean;
-  amount_sats?: string;
+  amount_sats?: string | null;
+  amountless?: boolean;
+};
+
+const EXPIRY_PRESETS = [
+  { label: "10 min", seconds: 600 },
+  { label: "1 hour", seconds: 3600 },
+  { label: "24 hours", seconds: 86400 },
+  { label: "7 days", seconds: 7 * 86400 },
+] as const;
+
+const DEFAULT_EXPIRY_SECONDS = 86400;
+const MEMO_MAX_LENGTH = 200;
+
+const describeInvoiceStatus = (status: InvoiceStatus | null): string => {
+  if (!status) return "Checking invoice status…";
+  if (status.state === "expired") return "This invoice expired before it was paid.";
+  if (status.state === "cancelled") return "This invoice was cancelled.";
+  if (status.state === "paid") {
+    return status.credit?.status === "failed"
+      ? "Paid. Crediting your Starknet wallet failed; retrying shortly…"
+      : "Paid. Crediting your Starknet wallet…";
+  }
+  return "Waiting for payment…";
 };
 
 export const InvoiceRequestCard: React.FC<InvoiceRequestCardProps> = ({
   accountAddress,
+  deepLink = null,
 }) => {
-  const [amountBtc, setAmountBtc] = useState<string>("");
+  const { unit, unitLabel, formatSats, parseAmount } = useAmountUnit();
+  const { currency, rate, fiatToSats, formatSatsAsFiat } = useFiatPreferences();
+  const [amountInput, setAmountInput] = useState<string>("");
+  const [inputMode, setInputMode] = useState<"unit" | "fiat">("unit");
+  // Open-amount invoices let the payer decide how much to send
+  const [isOpenAmount, setIsOpenAmount] = useState(false);
+  const [memoInput, setMemoInput] = useState("");
+  const [expirySeconds, setExpirySeconds] = useState<number>(DEFAULT_EXPIRY_SECONDS);
+  // Off puts only the memo's hash in the invoice, so payers' wallets can't display it
+  const [memoVisible, setMemoVisible] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [invoice, setInvoice] = useState<InvoiceResponse | null>(null);
   const [createdAmount, setCreatedAmount] = useState<
-    { btc: string; sats: string } | null
+    { sats: bigint; fiat: string | null } | null
   >(null);
 
-  const handleCreateInvoice = async () => {
-    if (!accountAddress) {
-      setError("Connect a Starknet account to create an invoice.");
+  const { status: invoiceStatus, error: statusError } = useInvoiceStatus(invoice?.label);
+  // Expired and cancelled invoices can no longer be paid
+  const isInvoiceClosed =
+    invoiceStatus?.state === "expired" || invoiceStatus?.state === "cancelled";
+  const creditTxHash =
+    invoiceStatus?.state === "credited" ? invoiceStatus.credit?.tx_hash ?? null : null;
+  // What the payer actually sent; the only amount an open-amount invoice ever has
+  const receivedAmount = invoiceStatus?.amount_received_sats ?? createdAmount?.sats ?? null;
+  const receivedFiat = receivedAmount !== null ? formatSatsAsFiat(receivedAmount) : null;
+
+  // The fiat toggle disappears with the rate, so fall back to the display unit
+  const isFiatInput = inputMode === "fiat" && !!currency && !!rate;
+  const previewSats = isFiatInput ? fiatToSats(amountInput) : parseAmount(amountInput);
+
+  const handledDeepLinkRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!deepLink || deepLink.kind !== "receive" || handledDeepLinkRef.current === deepLink.id) {
       return;
     }
+    handledDeepLinkRef.current = deepLink.id;
+    setInvoice(null);
+    setCreatedAmount(null);
+    setError(null);
+    setInputMode("unit");
+    setIsOpenAmount(false);
+    setAmountInput(
+      deepLink.amountSats !== null
+        ? formatSats(deepLink.amountSats, { withUnit: false, grouping: false })
+        : "",
+    );
+  }, [deepLink, formatSats]);
 
-    const trimmedAmount = amountBtc.trim();
-    if (!/^\d*(\.\d{0,8})?$/.test(trimmedAmount) || trimmedAmount === "") {
-      setError("Enter a valid BTC amount (up to 8 decimals).");
+  const handleCreateInvoice = async () => {
+    if (!accountAddress) {
+      setError("Connect a Starknet account to create an invoice.");
       return;
     }
 
-    const satsAmount = (() => {
-      const [whole, fraction = ""] = trimmedAmount.split(".");
-      const wholePart = BigInt(whole || "0") * 1_0000_0000n;
-      const fractionPadded = (fraction + "00000000").slice(0, 8);
-      return wholePart + BigInt(fractionPadded);
-    })();
+    const trimmedAmount = amountInput.trim();
+    let satsAmount: bigint | null = null;
+    if (!isOpenAmount) {
+      if (isFiatInput) {
+        const converted = fiatToSats(trimmedAmount);
+        if (converted === null) {
+          setError(`Enter a valid ${currency} amount (up to 2 decimals).`);
+          return;
+        }
+        satsAmount = converted;
+      } else {
+        const parsed = parseAmount(trimmedAmount);
+        if (parsed === null) {
+          setError(`${describeAmountPrecision(unit)}.`);
+          return;
+        }
+        satsAmount = parsed;
+      }
 
-    if (satsAmount <= 0n) {
-      setError("Amount must be greater than zero.");
-      return;
+      if (satsAmount <= 0n) {
+        setError("Amount must be greater than zero.");
+        return;
+      }
     }
 
     setIsSubmitting(true);
     setError(null);
 
     try {
-      const satsString = satsAmount.toString();
+      const satsString = satsAmount !== null ? satsAmount.toString() : null;
       const response = await fetch(process.env.EXPO_PUBLIC_APP_API_URL + "/invoice", {
         method: "POST",
         headers: {
@@ -70,9 +154,10 @@ export const InvoiceRequestCard: React.FC<InvoiceRequestCardProps> = ({
         },
         body: JSON.stringify({
           starknet_address: accountAddress,
-          amount_sat: satsString,
-          ttl_seconds: 86400,
-          private_desc: true,
+          ...(satsString !== null ? { amount_sat: satsString } : {}),
+          ttl_seconds: expirySeconds,
+          memo: memoInput.trim(),
+          private_desc: !!memoInput.trim() && !memoVisible,
         }),
       });
 
@@ -94,34 +179,12 @@ export const InvoiceRequestCard: React.FC<InvoiceRequestCardProps> = ({
         amount_sats: satsString,
       };
 
-      const withinSafeRange = satsAmount <= BigInt(Number.MAX_SAFE_INTEGER);
-      const satsDisplay = withinSafeRange
-        ? Number(satsAmount).toLocaleString()
-        : satsString;
-      const btcDisplay = (() => {
-        if (withinSafeRange) {
-          return (Number(satsAmount) / 1e8).toLocaleString(undefined, {
-            minimumFractionDigits: 0,
-            maximumFractionDigits: 8,
-          });
-        }
-        const integerPart = satsAmount / 100_000_000n;
-        const fractionalPart = satsAmount % 100_000_000n;
-        if (fractionalPart === 0n) {
-          return integerPart.toString();
-        }
-        const fractionalStr = fractionalPart
-          .toString()
-          .padStart(8, '0')
-          .replace(/0+$/, '');
-        return `${integerPart.toString()}.${fractionalStr}`;
-      })();
-
       setInvoice(invoiceWithAmount);
-      setCreatedAmount({
-        btc: btcDisplay,
-        sats: satsDisplay,
-      });
+      setCreatedAmount(
+        satsAmount !== null
+          ? { sats: satsAmount, fiat: formatSatsAsFiat(satsAmount) }
+          : null,
+      );
       setError(null);
       Keyboard.dismiss();
     } catch (err) {
@@ -148,41 +211,181 @@ export const InvoiceRequestCard: React.FC<InvoiceRequestCardProps> = ({
     }
   };
 
+  const handleNewInvoice = () => {
+    setInvoice(null);
+    setCreatedAmount(null);
+    setAmountInput("");
+    setMemoInput("");
+    setError(null);
+  };
+
   return (
     <View style={styles.card}>
-      {invoice ? (
+      {invoice && invoiceStatus?.state === "credited" ? (
+        <View style={styles.successSection}>
+          <Ionicons name="checkmark-circle" size={56} color="#16a34a" />
+          <Text style={styles.cardTitle}>Payment received</Text>
+          {receivedAmount !== null ? (
+            <Text style={styles.amountSummary}>
+              {formatSats(receivedAmount)}
+              {receivedFiat ? ` (${receivedFiat})` : ""}
+            </Text>
+          ) : null}
+          <Text style={styles.helperText}>Credited to your Starknet wallet</Text>
+          {creditTxHash ? (
+            <View style={styles.txHashBox}>
+              <Text style={styles.label}>Credit transaction</Text>
+              <Text style={styles.txHashText} selectable>
+                {creditTxHash}
+              </Text>
+            </View>
+          ) : null}
+          <Pressable style={[styles.secondaryButton, styles.fullWidth]} onPress={handleNewInvoice}>
+            <Text style={styles.secondaryButtonText}>Create another invoice</Text>
+          </Pressable>
+        </View>
+      ) : invoice ? (
         <>
           <Text style={styles.cardTitle}>Lightning invoice</Text>
           {createdAmount ? (
             <Text style={styles.amountSummary}>
-              {createdAmount.btc} BTC · {createdAmount.sats} sats
+              {formatSats(createdAmount.sats)}
+              {createdAmount.fiat ? ` (${createdAmount.fiat})` : ""}
+            </Text>
+          ) : invoice.amountless ? (
+            <Text style={styles.amountSummary}>Any amount</Text>
+          ) : null}
+          {invoice.memo ? (
+            <Text style={styles.memoText}>
+              {invoice.memo}
+              {invoice.desc_visible_to_payer ? "" : " (hidden from payer)"}
             </Text>
           ) : null}
           <View style={styles.qrSection}>
             <QRCode value={invoice.bolt11} size={200} backgroundColor="#ffffff" />
-            <Text style={styles.qrCaption}>Scan to pay</Text>
+            <Text style={styles.qrCaption}>
+              {`Scan to pay · expires ${new Date(invoice.expires_at * 1000).toLocaleString()}`}
+            </Text>
           </View>
+          <View style={styles.statusRow}>
+            {!isInvoiceClosed ? (
+              <ActivityIndicator size="small" color="#2563eb" />
+            ) : null}
+            <Text
+              style={[
+                styles.statusText,
+                isInvoiceClosed ? styles.statusTextMuted : null,
+              ]}
+            >
+              {describeInvoiceStatus(invoiceStatus)}
+            </Text>
+          </View>
+          {statusError ? <Text style={styles.errorText}>{statusError}</Text> : null}
           <Pressable
             style={styles.secondaryButton}
             onPress={handleShareInvoice}
           >
             <Text style={styles.secondaryButtonText}>Share invoice</Text>
           </Pressable>
+          {isInvoiceClosed ? (
+            <Pressable style={styles.secondaryButton} onPress={handleNewInvoice}>
+              <Text style={styles.secondaryButtonText}>Create another invoice</Text>
+            </Pressable>
+          ) : null}
         </>
       ) : (
         <>
           <Text style={styles.cardTitle}>Create lightning invoice</Text>
 
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Let the payer choose the amount</Text>
+            <Switch
+              value={isOpenAmount}
+              onValueChange={(value) => {
+                setIsOpenAmount(value);
+                setError(null);
+              }}
+            />
+          </View>
+
+          {isOpenAmount ? (
+            <Text style={styles.conversionText}>
+              Anyone can pay this invoice any amount; you are credited whatever arrives.
+            </Text>
+          ) : (
+            <View style={styles.fieldGroup}>
+              <View style={styles.labelRow}>
+                <Text style={styles.label}>
+                  Amount ({isFiatInput ? currency : unitLabel})
+                </Text>
+                {currency && rate ? (
+                  <Pressable
+                    onPress={() => {
+                      setInputMode(isFiatInput ? "unit" : "fiat");
+                      setAmountInput("");
+                      setError(null);
+                    }}
+                  >
+                    <Text style={styles.unitToggleText}>
+                      {isFiatInput ? `Enter in ${unitLabel}` : `Enter in ${currency}`}
+                    </Text>
+                  </Pressable>
+                ) : null}
+              </View>
+              <TextInput
+                style={styles.input}
+                keyboardType={isFiatInput ? "decimal-pad" : amountInputKeyboard(unit)}
+                placeholder={isFiatInput ? "10.00" : formatSats(10_000n, { withUnit: false })}
+                placeholderTextColor="#94a3b8"
+                value={amountInput}
+                onChangeText={setAmountInput}
+              />
+              {previewSats !== null && previewSats > 0n ? (
+                <Text style={styles.conversionText}>
+                  {isFiatInput
+                    ? `${formatSats(previewSats)} at ${rate?.btcPrice.toLocaleString()} ${currency}/BTC`
+                    : formatSatsAsFiat(previewSats)}
+                </Text>
+              ) : null}
+            </View>
+          )}
+
           <View style={styles.fieldGroup}>
-            <Text style={styles.label}>Amount (BTC)</Text>
+            <Text style={styles.label}>Memo (optional)</Text>
             <TextInput
               style={styles.input}
-              keyboardType="decimal-pad"
-              placeholder="0.0001"
+              placeholder="What is this payment for?"
               placeholderTextColor="#94a3b8"
-              value={amountBtc}
-              onChangeText={setAmountBtc}
+              value={memoInput}
+              onChangeText={setMemoInput}
+              maxLength={MEMO_MAX_LENGTH}
             />
+            {memoInput.trim() ? (
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Show memo to payer</Text>
+                <Switch value={memoVisible} onValueChange={setMemoVisible} />
+              </View>
+            ) : null}
+          </View>
+
+          <View style={styles.fieldGroup}>
+            <Text style={styles.label}>Expires after</Text>
+            <View style={styles.chipRow}>
+              {EXPIRY_PRESETS.map((preset) => {
+                const isActive = preset.seconds === expirySeconds;
+                return (
+                  <Pressable
+                    key={preset.seconds}
+                    style={[styles.chip, isActive && styles.chipActive]}
+                    onPress={() => setExpirySeconds(preset.seconds)}
+                  >
+                    <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                      {preset.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
           </View>
           {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
@@ -233,6 +436,20 @@ const styles = StyleSheet.create({
   fieldGroup: {
     gap: 8,
   },
+  labelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  unitToggleText: {
+    color: "#2563eb",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  conversionText: {
+    color: "#64748b",
+    fontSize: 13,
+  },
   label: {
     color: "#4a5568",
     fontSize: 14,
@@ -296,4 +513,74 @@ const styles = StyleSheet.create({
     color: "#64748b",
     fontSize: 12,
   },
+  memoText: {
+    marginTop: -6,
+    color: "#475569",
+    fontSize: 14,
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  switchLabel: {
+    color: "#4a5568",
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipActive: {
+    backgroundColor: "#eef2ff",
+    borderColor: "#2563eb",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#475569",
+  },
+  chipTextActive: {
+    color: "#2563eb",
+    fontWeight: "600",
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+  },
+  statusText: {
+    color: "#2563eb",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  statusTextMuted: {
+    color: "#64748b",
+  },
+  successSection: {
+    alignItems: "center",
+    gap: 10,
+  },
+  txHashBox: {
+    alignSelf: "stretch",
+    backgroundColor: "#f8fafc",
+    borderRadius: 10,
+    padding: 12,
+    gap: 4,
+  },
+  txHashText: {
+    color: "#1a202c",
+    fontSize: 12,
+  },
+  fullWidth: {
+    alignSelf: "stretch",
+  },
 });
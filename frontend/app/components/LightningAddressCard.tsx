@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import type { Account } from "starknet";
+
+import {
+  claimLightningAddress,
+  fetchLightningAddress,
+  releaseLightningAddress,
+  type LightningAddress,
+} from "../services/lightningAddress";
+
+type LightningAddressCardProps = {
+  account: Account;
+};
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+
+export const LightningAddressCard: React.FC<LightningAddressCardProps> = ({ account }) => {
+  const [lightningAddress, setLightningAddress] = useState<LightningAddress | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [usernameInput, setUsernameInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setLightningAddress(await fetchLightningAddress(account.address));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load your Lightning Address");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account.address]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const handleClaim = async () => {
+    const username = usernameInput.trim().toLowerCase();
+    if (!USERNAME_PATTERN.test(username)) {
+      setError("Use 3-32 characters: a-z, 0-9, dot, dash or underscore");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      setLightningAddress(await claimLightningAddress(account, username));
+      setUsernameInput("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to claim this username");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!lightningAddress) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await releaseLightningAddress(account, lightningAddress.username);
+      setLightningAddress(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to release this username");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!lightningAddress) return;
+    try {
+      await Share.share({ title: "Lightning Address", message: lightningAddress.address });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to share your Lightning Address");
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>Lightning Address</Text>
+        {isLoading ? <ActivityIndicator size="small" color="#2563eb" /> : null}
+      </View>
+
+      {lightningAddress ? (
+        <>
+          <Text style={styles.addressText} selectable>
+            {lightningAddress.address}
+          </Text>
+          <Text style={styles.helperText}>
+            Anyone can pay this address from a Lightning wallet; payments are credited to your
+            Starknet account.
+          </Text>
+          <View style={styles.buttonRow}>
+            <Pressable style={[styles.secondaryButton, styles.flexButton]} onPress={handleShare}>
+              <Text style={styles.secondaryButtonText}>Share</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.secondaryButton, styles.flexButton, isSaving && styles.buttonDisabled]}
+              onPress={handleRelease}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#2563eb" />
+              ) : (
+                <Text style={styles.secondaryButtonText}>Release</Text>
+              )}
+            </Pressable>
+          </View>
+        </>
+      ) : (
+        <>
+          <Text style={styles.helperText}>
+            Pick a username to receive payments of any amount without creating invoices.
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder="username"
+            placeholderTextColor="#94a3b8"
+            value={usernameInput}
+            onChangeText={setUsernameInput}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Pressable
+            style={[styles.button, isSaving && styles.buttonDisabled]}
+            onPress={handleClaim}
+            disabled={isSaving || isLoading}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.buttonText}>Claim username</Text>
+            )}
+          </Pressable>
+        </>
+      )}
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: "100%",
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    paddingVertical: 20,
+    paddingHorizontal: 20,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTitle: {
+    color: "#1a202c",
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  addressText: {
+    color: "#1a202c",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  helperText: {
+    color: "#64748b",
+    fontSize: 13,
+  },
+  input: {
+    backgroundColor: "#f8fafc",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#cbd5e0",
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    color: "#1a202c",
+    fontSize: 16,
+  },
+  button: {
+    backgroundColor: "#2563eb",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: "#ffffff",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  flexButton: {
+    flex: 1,
+  },
+  secondaryButton: {
+    backgroundColor: "#eef2ff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#2563eb",
+    fontWeight: "600",
+    fontSize: 15,
+  },
+  errorText: {
+    color: "#f87171",
+    fontSize: 14,
+  },
+});
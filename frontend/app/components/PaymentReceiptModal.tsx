@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from "react";
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import QRCode from "react-native-qrcode-svg";
+import { Ionicons } from "@expo/vector-icons";
+
+import { useAmountUnit } from "../context/AmountUnit";
+import type { PaymentReceipt } from "../services/payments";
+import { formatReceiptJson, verifyPaymentPreimage } from "../services/receipts";
+import { formatPaymentUpdatedAt } from "../utils/paymentsFormatting";
+
+export type PaymentReceiptModalProps = {
+  receipt: PaymentReceipt | null;
+  onClose: () => void;
+};
+
+export const PaymentReceiptModal: React.FC<PaymentReceiptModalProps> = ({
+  receipt,
+  onClose,
+}) => {
+  const { formatSats } = useAmountUnit();
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  const verified = useMemo(
+    () => (receipt ? verifyPaymentPreimage(receipt.preimage, receipt.payment_hash) : false),
+    [receipt],
+  );
+
+  // Just the proof, so the code stays small enough to scan off a screenshot.
+  const proofQrValue = useMemo(
+    () =>
+      receipt?.preimage
+        ? JSON.stringify({ payment_hash: receipt.payment_hash, preimage: receipt.preimage })
+        : null,
+    [receipt],
+  );
+
+  const handleShare = async () => {
+    if (!receipt) return;
+    setShareError(null);
+    try {
+      await Share.share({
+        title: "Payment receipt",
+        message: formatReceiptJson(receipt),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setShareError(message || "Unable to share receipt.");
+    }
+  };
+
+  const paidAt = receipt?.paid_at ? Date.parse(receipt.paid_at) : NaN;
+  const details: [string, string | null | undefined][] = receipt
+    ? [
+        ["Payment hash", receipt.payment_hash],
+        ["Preimage", receipt.preimage],
+        ["Payer", receipt.payer],
+        ["Lock transaction", receipt.lock_tx_hash],
+        ["Claim transaction", receipt.claim_tx_hash],
+        ["Invoice", receipt.bolt11],
+      ]
+    : [];
+
+  return (
+    <Modal
+      visible={!!receipt}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Payment receipt</Text>
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={22} color="#475569" />
+            </Pressable>
+          </View>
+          {receipt ? (
+            <ScrollView contentContainerStyle={styles.content}>
+              <Text style={styles.amount}>
+                {formatSats(receipt.amount_sats, { prefix: "- " })}
+              </Text>
+              {Number.isFinite(paidAt) ? (
+                <Text style={styles.metaText}>{formatPaymentUpdatedAt(paidAt)}</Text>
+              ) : null}
+              <View
+                style={[styles.badge, verified ? styles.badgeVerified : styles.badgeFailed]}
+              >
+                <Ionicons
+                  name={verified ? "checkmark-circle" : "alert-circle"}
+                  size={18}
+                  color={verified ? "#15803d" : "#b91c1c"}
+                />
+                <Text
+                  style={[
+                    styles.badgeText,
+                    verified ? styles.badgeTextVerified : styles.badgeTextFailed,
+                  ]}
+                >
+                  {verified
+                    ? "Preimage matches the payment hash"
+                    : "Preimage does not match the payment hash"}
+                </Text>
+              </View>
+              {proofQrValue ? (
+                <View style={styles.qrSection}>
+                  <QRCode value={proofQrValue} size={180} backgroundColor="#ffffff" />
+                  <Text style={styles.metaText}>Proof of payment</Text>
+                </View>
+              ) : null}
+              {details.map(([label, value]) =>
+                value ? (
+                  <View key={label} style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{label}</Text>
+                    <Text style={styles.detailValue} selectable>
+                      {value}
+                    </Text>
+                  </View>
+                ) : null,
+              )}
+              {shareError ? <Text style={styles.errorText}>{shareError}</Text> : null}
+              <Pressable style={styles.primaryButton} onPress={handleShare}>
+                <Text style={styles.primaryButtonText}>Share receipt</Text>
+              </Pressable>
+            </ScrollView>
+          ) : null}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "#0f172a66",
+  },
+  sheet: {
+    maxHeight: "90%",
+    backgroundColor: "#ffffff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 14,
+  },
+  amount: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#0f172a",
+  },
+  metaText: {
+    fontSize: 13,
+    color: "#64748b",
+  },
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  badgeVerified: {
+    backgroundColor: "#dcfce7",
+  },
+  badgeFailed: {
+    backgroundColor: "#fee2e2",
+  },
+  badgeText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  badgeTextVerified: {
+    color: "#15803d",
+  },
+  badgeTextFailed: {
+    color: "#b91c1c",
+  },
+  qrSection: {
+    alignItems: "center",
+    gap: 8,
+  },
+  detailRow: {
+    gap: 4,
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#64748b",
+    textTransform: "uppercase",
+  },
+  detailValue: {
+    fontSize: 13,
+    color: "#1f2937",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  primaryButton: {
+    borderRadius: 12,
+    backgroundColor: "#2563eb",
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -1,27 +1,54 @@
 import React from "react";
-import { StyleSheet, Text, View } from "react-native";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
 
-import type { HistoryRecord } from "../services/payments";
+import { useAmountUnit } from "../context/AmountUnit";
+import { useFiatPreferences } from "../context/FiatPreferences";
+import type { Contact } from "../services/contacts";
+import type { HistoryRecord, PaymentReceipt } from "../services/payments";
+import { receiptFromPaymentRecord } from "../services/receipts";
 import {
-  formatSatsValue,
   formatPaymentUpdatedAt,
   getHistoryAmount,
   getHistoryDisplayTimestamp,
   getHistoryIdentifier,
   getHistoryStatus,
+  isCancellableInvoice,
+  isRefundCandidate,
 } from "../utils/paymentsFormatting";
 
 type PaymentRowProps = {
   record: HistoryRecord;
+  // Saved payee this payment went to; shown instead of the raw payment hash
+  contact?: Contact | null;
+  isRefunding?: boolean;
+  onRefund?: (paymentHash: string) => void;
+  onViewReceipt?: (receipt: PaymentReceipt) => void;
+  isCancelling?: boolean;
+  onCancelInvoice?: (label: string) => void;
 };
 
-export const PaymentRow: React.FC<PaymentRowProps> = ({ record }) => {
+export const PaymentRow: React.FC<PaymentRowProps> = ({
+  record,
+  contact = null,
+  isRefunding = false,
+  onRefund,
+  onViewReceipt,
+  isCancelling = false,
+  onCancelInvoice,
+}) => {
+  const { formatSats } = useAmountUnit();
+  const { formatSatsAsFiat } = useFiatPreferences();
   const amount = getHistoryAmount(record);
+  const fiatAmount = formatSatsAsFiat(amount);
   const statusInfo = getHistoryStatus(record);
   const displayTimestamp = getHistoryDisplayTimestamp(record);
   const updatedAt = formatPaymentUpdatedAt(displayTimestamp ?? undefined);
   const identifier = getHistoryIdentifier(record);
   const prefix = record.direction === "received" ? "+ " : record.direction === "sent" ? "- " : undefined;
+  const canRefund = !!onRefund && record.kind === "payment" && isRefundCandidate(record);
+  const canCancel = !!onCancelInvoice && record.kind === "invoice" && isCancellableInvoice(record);
+  const receipt =
+    onViewReceipt && record.kind === "payment" ? receiptFromPaymentRecord(record.payment) : null;
 
   return (
     <View style={styles.row}>
@@ -37,11 +64,50 @@ export const PaymentRow: React.FC<PaymentRowProps> = ({ record }) => {
         {updatedAt ? <Text style={styles.metaText}>{updatedAt}</Text> : null}
       </View>
       <View style={styles.rowBody}>
-        <Text style={styles.amountText}>{formatSatsValue(amount, { prefix })}</Text>
-        <Text style={styles.hashText} numberOfLines={1}>
-          {identifier}
-        </Text>
+        <View style={styles.amountRow}>
+          <Text style={styles.amountText}>
+            {amount === null && record.kind === "invoice" && record.invoice.amountless
+              ? "Any amount"
+              : formatSats(amount, { prefix })}
+          </Text>
+          {fiatAmount ? <Text style={styles.fiatText}>{fiatAmount}</Text> : null}
+        </View>
+        {contact ? (
+          <Text style={styles.contactText} numberOfLines={1}>
+            {`To ${contact.label}`}
+          </Text>
+        ) : (
+          <Text style={styles.hashText} numberOfLines={1}>
+            {identifier}
+          </Text>
+        )}
       </View>
+      {canRefund ? (
+        isRefunding ? (
+          <ActivityIndicator size="small" color="#2563eb" style={styles.refundIndicator} />
+        ) : (
+          <Pressable style={styles.refundButton} onPress={() => onRefund(record.id)}>
+            <Text style={styles.refundButtonText}>Refund</Text>
+          </Pressable>
+        )
+      ) : null}
+      {canCancel && record.kind === "invoice" ? (
+        isCancelling ? (
+          <ActivityIndicator size="small" color="#2563eb" style={styles.refundIndicator} />
+        ) : (
+          <Pressable
+            style={styles.refundButton}
+            onPress={() => onCancelInvoice(record.invoice.label)}
+          >
+            <Text style={styles.refundButtonText}>Cancel invoice</Text>
+          </Pressable>
+        )
+      ) : null}
+      {receipt && onViewReceipt ? (
+        <Pressable style={styles.refundButton} onPress={() => onViewReceipt(receipt)}>
+          <Text style={styles.refundButtonText}>View receipt</Text>
+        </Pressable>
+      ) : null}
     </View>
   );
 };
@@ -70,6 +136,15 @@ const styles = StyleSheet.create({
   rowBody: {
     gap: 4,
   },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+  },
+  fiatText: {
+    fontSize: 13,
+    color: "#64748b",
+  },
   amountText: {
     fontSize: 16,
     fontWeight: "600",
@@ -79,4 +154,26 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: "#64748b",
   },
+  contactText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#475569",
+  },
+  refundButton: {
+    alignSelf: "flex-start",
+    backgroundColor: "#eef2ff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  refundButtonText: {
+    color: "#2563eb",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  refundIndicator: {
+    alignSelf: "flex-start",
+  },
 });
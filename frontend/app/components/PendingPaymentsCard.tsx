@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+import { useAmountUnit } from "../context/AmountUnit";
+import type { PendingPayment } from "../services/pendingPayments";
+import { formatCountdown } from "../utils/paymentsFormatting";
+
+type PendingPaymentsCardProps = {
+  payments: PendingPayment[];
+  isLoading: boolean;
+  resumingHashes: string[];
+  onResume: (paymentHash: string) => void;
+  refundingHash?: string | null;
+  onRefund?: (paymentHash: string) => void;
+};
+
+const STAGE_LABELS: Record<PendingPayment["stage"], string> = {
+  locking: "Locking funds",
+  locked: "Funds locked",
+  paying: "Paying invoice",
+  failed: "Payment failed",
+};
+
+export const PendingPaymentsCard: React.FC<PendingPaymentsCardProps> = ({
+  payments,
+  isLoading,
+  resumingHashes,
+  onResume,
+  refundingHash = null,
+  onRefund,
+}) => {
+  const { formatSats } = useAmountUnit();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    if (payments.length === 0) return;
+    const intervalId = setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+    }, 1000);
+    return () => clearInterval(intervalId);
+  }, [payments.length]);
+
+  if (payments.length === 0 && !isLoading) {
+    return null;
+  }
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>In-flight payments</Text>
+        {isLoading ? <ActivityIndicator size="small" color="#2563eb" /> : null}
+      </View>
+      {payments.map((payment) => {
+        const secondsLeft = payment.expiresAt ? payment.expiresAt - now : null;
+        const isExpired = secondsLeft !== null && secondsLeft <= 0;
+        const isResuming = resumingHashes.includes(payment.paymentHash);
+        const isRefunding = refundingHash === payment.paymentHash;
+        const canRetry =
+          !isExpired && payment.stage !== "locking" && !isResuming;
+        const canRefund = isExpired && !!onRefund && refundingHash === null;
+
+        return (
+          <View key={payment.paymentHash} style={styles.row}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.amountText}>
+                {formatSats(payment.amountSats, { prefix: "- " })}
+              </Text>
+              <Text style={[styles.countdown, isExpired && styles.countdownExpired]}>
+                {secondsLeft === null
+                  ? "awaiting lock"
+                  : isExpired
+                  ? "escrow expired"
+                  : `expires in ${formatCountdown(secondsLeft)}`}
+              </Text>
+            </View>
+            <Text style={styles.stageText}>{STAGE_LABELS[payment.stage]}</Text>
+            {payment.error ? (
+              <Text style={styles.errorText}>{payment.error}</Text>
+            ) : null}
+            <Text style={styles.hashText} numberOfLines={1}>
+              {`0x${payment.paymentHash}`}
+            </Text>
+            {canRetry ? (
+              <Pressable
+                style={styles.actionButton}
+                onPress={() => onResume(payment.paymentHash)}
+              >
+                <Text style={styles.actionButtonText}>Retry payment</Text>
+              </Pressable>
+            ) : null}
+            {canRefund ? (
+              <Pressable
+                style={styles.actionButton}
+                onPress={() => onRefund(payment.paymentHash)}
+              >
+                <Text style={styles.actionButtonText}>Refund</Text>
+              </Pressable>
+            ) : null}
+            {isResuming || isRefunding ? (
+              <ActivityIndicator size="small" color="#2563eb" />
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: "100%",
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    paddingVertical: 20,
+    paddingHorizontal: 20,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    gap: 16,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  row: {
+    gap: 6,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  amountText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  countdown: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  countdownExpired: {
+    color: "#b91c1c",
+  },
+  stageText: {
+    fontSize: 13,
+    color: "#475569",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  hashText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  actionButton: {
+    alignSelf: "flex-start",
+    backgroundColor: "#eef2ff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  actionButtonText: {
+    color: "#2563eb",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
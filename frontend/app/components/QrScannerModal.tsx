@@ -0,0 +1,122 @@
+import React, { useEffect, useRef } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { Ionicons } from "@expo/vector-icons";
+
+export type QrScannerModalProps = {
+  visible: boolean;
+  onScanned: (data: string) => void;
+  onClose: () => void;
+};
+
+export const QrScannerModal: React.FC<QrScannerModalProps> = ({
+  visible,
+  onScanned,
+  onClose,
+}) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      handledRef.current = false;
+      if (permission && !permission.granted && permission.canAskAgain) {
+        requestPermission();
+      }
+    }
+  }, [visible, permission, requestPermission]);
+
+  const handleBarcodeScanned = ({ data }: { data: string }) => {
+    // The camera keeps firing while the code stays in frame.
+    if (handledRef.current || !data) return;
+    handledRef.current = true;
+    onScanned(data);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {!permission ? (
+          <ActivityIndicator size="large" color="#ffffff" />
+        ) : permission.granted ? (
+          <CameraView
+            style={StyleSheet.absoluteFill}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+            onBarcodeScanned={handleBarcodeScanned}
+          />
+        ) : (
+          <View style={styles.permissionCard}>
+            <Text style={styles.permissionText}>
+              Camera access is needed to scan Lightning QR codes.
+            </Text>
+            {permission.canAskAgain ? (
+              <Pressable style={styles.permissionButton} onPress={requestPermission}>
+                <Text style={styles.permissionButtonText}>Allow camera</Text>
+              </Pressable>
+            ) : null}
+          </View>
+        )}
+        {permission?.granted ? <View style={styles.frame} pointerEvents="none" /> : null}
+        <Pressable style={styles.closeButton} onPress={onClose}>
+          <Ionicons name="close" size={28} color="#ffffff" />
+        </Pressable>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#0f172a",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: "#ffffff",
+  },
+  closeButton: {
+    position: "absolute",
+    top: 48,
+    right: 24,
+    padding: 8,
+    borderRadius: 999,
+    backgroundColor: "#00000066",
+  },
+  permissionCard: {
+    marginHorizontal: 32,
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: "#ffffff",
+    gap: 12,
+    alignItems: "center",
+  },
+  permissionText: {
+    fontSize: 15,
+    color: "#1f2937",
+    textAlign: "center",
+  },
+  permissionButton: {
+    borderRadius: 12,
+    backgroundColor: "#2563eb",
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  permissionButtonText: {
+    color: "#ffffff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import QRCode from "react-native-qrcode-svg";
+
+import { useAmountUnit } from "../context/AmountUnit";
+import { createReceiveOffer, fetchReceiveOffers, type ReceiveOffer } from "../services/offers";
+import { amountInputKeyboard, describeAmountPrecision } from "../utils/amountFormat";
+
+type ReceiveOfferCardProps = {
+  accountAddress: string;
+};
+
+export const ReceiveOfferCard: React.FC<ReceiveOfferCardProps> = ({ accountAddress }) => {
+  const { unit, unitLabel, formatSats, parseAmount } = useAmountUnit();
+  const [offers, setOffers] = useState<ReceiveOffer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [description, setDescription] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setOffers(await fetchReceiveOffers(accountAddress));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load your offers");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accountAddress]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const latestOffer = offers[0] ?? null;
+
+  const handleCreate = async () => {
+    const trimmedDescription = description.trim();
+    if (!trimmedDescription) {
+      setError("Add a description so payers know what the offer is for");
+      return;
+    }
+    let amountSats: bigint | null = null;
+    if (amountInput.trim()) {
+      amountSats = parseAmount(amountInput);
+      if (amountSats === null || amountSats <= 0n) {
+        setError(`${describeAmountPrecision(unit)}.`);
+        return;
+      }
+    }
+    setIsCreating(true);
+    setError(null);
+    try {
+      const offer = await createReceiveOffer(accountAddress, trimmedDescription, amountSats);
+      setOffers((current) => [offer, ...current.filter((item) => item.offerId !== offer.offerId)]);
+      setDescription("");
+      setAmountInput("");
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to create the offer");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!latestOffer) return;
+    try {
+      await Share.share({ title: "Lightning offer", message: latestOffer.bolt12 });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to share the offer");
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>Reusable offer</Text>
+        {isLoading ? <ActivityIndicator size="small" color="#2563eb" /> : null}
+      </View>
+
+      {latestOffer && !showForm ? (
+        <>
+          <Text style={styles.descriptionText}>{latestOffer.description}</Text>
+          <Text style={styles.helperText}>
+            {latestOffer.amountSats !== null ? formatSats(latestOffer.amountSats) : "Any amount"}
+            {" · can be paid any number of times"}
+          </Text>
+          <View style={styles.qrSection}>
+            <QRCode value={latestOffer.bolt12} size={200} backgroundColor="#ffffff" />
+          </View>
+          <View style={styles.buttonRow}>
+            <Pressable style={[styles.secondaryButton, styles.flexButton]} onPress={handleShare}>
+              <Text style={styles.secondaryButtonText}>Share offer</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.secondaryButton, styles.flexButton]}
+              onPress={() => setShowForm(true)}
+            >
+              <Text style={styles.secondaryButtonText}>New offer</Text>
+            </Pressable>
+          </View>
+        </>
+      ) : (
+        <>
+          <Text style={styles.helperText}>
+            A BOLT12 offer can be paid many times; each payment is credited to your Starknet
+            account.
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Description (e.g. Donations)"
+            placeholderTextColor="#94a3b8"
+            value={description}
+            onChangeText={setDescription}
+            maxLength={200}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder={`Amount in ${unitLabel} (optional)`}
+            placeholderTextColor="#94a3b8"
+            value={amountInput}
+            onChangeText={setAmountInput}
+            keyboardType={amountInputKeyboard(unit)}
+          />
+          <View style={styles.buttonRow}>
+            {latestOffer ? (
+              <Pressable
+                style={[styles.secondaryButton, styles.flexButton]}
+                onPress={() => setShowForm(false)}
+                disabled={isCreating}
+              >
+                <Text style={styles.secondaryButtonText}>Back</Text>
+              </Pressable>
+            ) : null}
+            <Pressable
+              style={[styles.button, styles.flexButton, isCreating && styles.buttonDisabled]}
+              onPress={handleCreate}
+              disabled={isCreating || isLoading}
+            >
+              {isCreating ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.buttonText}>Create offer</Text>
+              )}
+            </Pressable>
+          </View>
+        </>
+      )}
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: "100%",
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    paddingVertical: 20,
+    paddingHorizontal: 20,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTitle: {
+    color: "#1a202c",
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  descriptionText: {
+    color: "#1a202c",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  helperText: {
+    color: "#64748b",
+    fontSize: 13,
+  },
+  qrSection: {
+    alignItems: "center",
+  },
+  input: {
+    backgroundColor: "#f8fafc",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#cbd5e0",
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    color: "#1a202c",
+    fontSize: 16,
+  },
+  button: {
+    backgroundColor: "#2563eb",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: "#ffffff",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  flexButton: {
+    flex: 1,
+  },
+  secondaryButton: {
+    backgroundColor: "#eef2ff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#2563eb",
+    fontWeight: "600",
+    fontSize: 15,
+  },
+  errorText: {
+    color: "#f87171",
+    fontSize: 14,
+  },
+});
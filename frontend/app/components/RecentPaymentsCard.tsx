@@ -6,7 +6,8 @@ import {
   Text,
   View,
 } from "react-native";
-import type { HistoryRecord } from "../services/payments";
+import type { Contact } from "../services/contacts";
+import type { HistoryRecord, PaymentReceipt } from "../services/payments";
 import { PaymentRow } from "./PaymentRow";
 import {
   getHistoryDisplayTimestamp,
@@ -18,6 +19,12 @@ type RecentPaymentsCardProps = {
   isLoading: boolean;
   error: string | null;
   onRetry?: () => void;
+  refundingHash?: string | null;
+  onRefund?: (paymentHash: string) => void;
+  onViewReceipt?: (receipt: PaymentReceipt) => void;
+  contactForRecord?: (record: HistoryRecord) => Contact | null;
+  cancellingLabel?: string | null;
+  onCancelInvoice?: (label: string) => void;
 };
 
 export const RecentPaymentsCard: React.FC<RecentPaymentsCardProps> = ({
@@ -25,6 +32,12 @@ export const RecentPaymentsCard: React.FC<RecentPaymentsCardProps> = ({
   isLoading,
   error,
   onRetry,
+  refundingHash = null,
+  onRefund,
+  onViewReceipt,
+  contactForRecord,
+  cancellingLabel = null,
+  onCancelInvoice,
 }) => {
   const showPlaceholder = !isLoading && records.length === 0 && !error;
   const orderedRecords = React.useMemo(() => {
@@ -65,7 +78,20 @@ export const RecentPaymentsCard: React.FC<RecentPaymentsCardProps> = ({
           {orderedRecords.map((record, index) => {
             const identifier = getHistoryIdentifier(record);
             const key = identifier || record.id || `history-${index}`;
-            return <PaymentRow key={key} record={record} />;
+            return (
+              <PaymentRow
+                key={key}
+                record={record}
+                contact={contactForRecord?.(record)}
+                isRefunding={refundingHash !== null && refundingHash === record.id}
+                onRefund={refundingHash === null ? onRefund : undefined}
+                onViewReceipt={onViewReceipt}
+                isCancelling={
+                  record.kind === "invoice" && cancellingLabel === record.invoice.label
+                }
+                onCancelInvoice={cancellingLabel === null ? onCancelInvoice : undefined}
+              />
+            );
           })}
         </View>
       ) : null}
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useAmountUnit } from "../context/AmountUnit";
+import type { SpendingPolicy } from "../services/spendingPolicy";
+import { amountInputKeyboard, formatAmount, type AmountUnit } from "../utils/amountFormat";
+
+type SpendingLimitCardProps = {
+  policy: SpendingPolicy;
+  spentSats: bigint;
+  isLoading: boolean;
+  onSave: (next: SpendingPolicy) => Promise<void>;
+};
+
+const toInput = (value: bigint | null, unit: AmountUnit) =>
+  value === null ? "" : formatAmount(value, unit, { withUnit: false, grouping: false });
+
+export const SpendingLimitCard: React.FC<SpendingLimitCardProps> = ({
+  policy,
+  spentSats,
+  isLoading,
+  onSave,
+}) => {
+  const { unit, unitLabel, formatSats, parseAmount } = useAmountUnit();
+  // null clears the limit; undefined means the input is invalid
+  const parseLimitInput = (value: string): bigint | null | undefined => {
+    if (!value.trim()) return null;
+    return parseAmount(value) ?? undefined;
+  };
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [thresholdInput, setThresholdInput] = useState(toInput(policy.confirmAboveSats, unit));
+  const [dailyLimitInput, setDailyLimitInput] = useState(toInput(policy.dailyLimitSats, unit));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isEditing) return;
+    setThresholdInput(toInput(policy.confirmAboveSats, unit));
+    setDailyLimitInput(toInput(policy.dailyLimitSats, unit));
+  }, [isEditing, policy, unit]);
+
+  const limit = policy.dailyLimitSats;
+  const usedFraction =
+    limit !== null && limit > 0n ? Math.min(Number((spentSats * 1000n) / limit) / 1000, 1) : 0;
+
+  const handleSave = async () => {
+    const confirmAboveSats = parseLimitInput(thresholdInput);
+    const dailyLimitSats = parseLimitInput(dailyLimitInput);
+    if (confirmAboveSats === undefined || dailyLimitSats === undefined) {
+      setError(`Limits must be valid ${unitLabel} amounts, or empty for none`);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ confirmAboveSats, dailyLimitSats });
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save spending limits");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>Spending limits</Text>
+        {isLoading ? <ActivityIndicator size="small" color="#2563eb" /> : null}
+      </View>
+
+      <Text style={styles.usageText}>
+        {limit !== null
+          ? `${formatSats(spentSats)} of ${formatSats(limit)} used in the last 24 hours`
+          : `${formatSats(spentSats)} spent in the last 24 hours · no daily limit`}
+      </Text>
+      {limit !== null ? (
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${usedFraction * 100}%` },
+              usedFraction >= 1 && styles.progressFillFull,
+            ]}
+          />
+        </View>
+      ) : null}
+      <Text style={styles.metaText}>
+        {policy.confirmAboveSats !== null
+          ? `Payments above ${formatSats(policy.confirmAboveSats)} need biometric or PIN confirmation`
+          : "No confirmation threshold set"}
+      </Text>
+
+      {isEditing ? (
+        <View style={styles.form}>
+          <Text style={styles.label}>{`Confirm payments above (${unitLabel})`}</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType={amountInputKeyboard(unit)}
+            placeholder="No threshold"
+            placeholderTextColor="#94a3b8"
+            value={thresholdInput}
+            onChangeText={setThresholdInput}
+          />
+          <Text style={styles.label}>{`Daily limit (${unitLabel})`}</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType={amountInputKeyboard(unit)}
+            placeholder="No limit"
+            placeholderTextColor="#94a3b8"
+            value={dailyLimitInput}
+            onChangeText={setDailyLimitInput}
+          />
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+          <View style={styles.actions}>
+            <Pressable
+              style={styles.actionButton}
+              onPress={() => {
+                setIsEditing(false);
+                setError(null);
+              }}
+            >
+              <Text style={styles.actionButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={styles.actionButton} onPress={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#2563eb" />
+              ) : (
+                <Text style={styles.actionButtonText}>Save</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      ) : (
+        <Pressable style={styles.actionButton} onPress={() => setIsEditing(true)}>
+          <Text style={styles.actionButtonText}>Edit limits</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    padding: 20,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1f2937",
+  },
+  usageText: {
+    fontSize: 14,
+    color: "#1f2937",
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 999,
+    backgroundColor: "#e2e8f0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 999,
+    backgroundColor: "#2563eb",
+  },
+  progressFillFull: {
+    backgroundColor: "#b91c1c",
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  form: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#0f172a",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    alignSelf: "flex-start",
+    backgroundColor: "#eef2ff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#cbd5f5",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  actionButtonText: {
+    color: "#2563eb",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -2,6 +2,8 @@ import React from "react";
 import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
 
 import { BTC_TOKEN_ADDRESS, BTC_TOKEN_DECIMALS, BTC_TOKEN_SYMBOL } from "../config/constants";
+import { useAmountUnit } from "../context/AmountUnit";
+import { useFiatPreferences } from "../context/FiatPreferences";
 import { useTokenBalance } from "../hooks/useTokenBalance";
 
 export type UserTokenBalanceCardProps = {
@@ -26,19 +28,29 @@ export const UserTokenBalanceCard: React.FC<UserTokenBalanceCardProps> = ({
     },
   );
 
+  const { unit, unitLabel, formatSats } = useAmountUnit();
+  const { formatSatsAsFiat } = useFiatPreferences();
+  // Only the 8-decimal BTC token's base unit is a satoshi
+  const isSatsBalance = tokenAddress === BTC_TOKEN_ADDRESS && decimals === 8;
+  const fiatBalance = isSatsBalance ? formatSatsAsFiat(balance) : null;
+
   const displayBalance =
-    formattedBalance ?? (balance !== null ? balance.toString() : "—");
+    isSatsBalance && balance !== null
+      ? formatSats(balance, { withUnit: false })
+      : formattedBalance ?? (balance !== null ? balance.toString() : "—");
+  const displaySymbol = isSatsBalance && unit !== "btc" ? unitLabel : tokenSymbol;
   const showLoadingIndicator = isLoading && balance === null;
 
   return (
     <View style={styles.card}>
       <View style={styles.balanceRow}>
         <Text style={styles.balanceValue}>{displayBalance}</Text>
-        <Text style={styles.symbol}>{tokenSymbol}</Text>
+        <Text style={styles.symbol}>{displaySymbol}</Text>
         {showLoadingIndicator ? (
           <ActivityIndicator size="small" color="#2563eb" />
         ) : null}
       </View>
+      {fiatBalance ? <Text style={styles.fiatValue}>{fiatBalance}</Text> : null}
     </View>
   );
 };
@@ -64,6 +76,13 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: "700",
   },
+  fiatValue: {
+    marginTop: 4,
+    color: "#64748b",
+    fontSize: 15,
+    fontWeight: "600",
+    textAlign: "center",
+  },
   symbol: {
     color: "#64748b",
     fontSize: 24,
@@ -14,3 +14,31 @@ export const BTC_TOKEN_DECIMALS = Number(
 
 export const ESCROW_CONTRACT_ADDRESS =
   process.env.EXPO_PUBLIC_ESCROW_CONTRACT_ADDRESS || "";
+
+// Starknet fee tokens: V3 transactions pay in STRK (FRI), legacy ones in ETH (WEI)
+export const STRK_TOKEN_ADDRESS =
+  process.env.EXPO_PUBLIC_STRK_TOKEN_ADDRESS ||
+  "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+export const ETH_TOKEN_ADDRESS =
+  process.env.EXPO_PUBLIC_ETH_TOKEN_ADDRESS ||
+  "0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7";
+
+// Escrow expiry policy; the timing values must match the backend's LN_PAY_RETRY_FOR and ESCROW_CLAIM_MARGIN_SECONDS
+export const LN_PAY_TIMEOUT_SECONDS = Number(
+  process.env.EXPO_PUBLIC_LN_PAY_RETRY_FOR || "30",
+);
+export const ESCROW_CLAIM_MARGIN_SECONDS = Number(
+  process.env.EXPO_PUBLIC_ESCROW_CLAIM_MARGIN_SECONDS || "120",
+);
+// Time allowed for the lock transaction to confirm before /pay is called
+export const ESCROW_LOCK_MARGIN_SECONDS = 120;
+
+// Must match the backend's LN_MAX_FEE_PERCENT (CLN `maxfeepercent`)
+export const LN_MAX_FEE_PERCENT = Number(
+  process.env.EXPO_PUBLIC_LN_MAX_FEE_PERCENT || "0.5",
+);
+
+// Must not exceed the backend's LN_BATCH_MAX_PAYMENTS
+export const LN_BATCH_MAX_PAYMENTS = Number(
+  process.env.EXPO_PUBLIC_LN_BATCH_MAX_PAYMENTS || "10",
+);
@@ -0,0 +1,75 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+
+import {
+  AMOUNT_UNIT_LABELS,
+  formatAmount,
+  isAmountUnit,
+  parseAmount,
+  type AmountUnit,
+  type FormatAmountOptions,
+} from "../utils/amountFormat";
+
+const UNIT_STORAGE_KEY = "paysat.amountUnit";
+
+type AmountUnitContextType = {
+  unit: AmountUnit;
+  unitLabel: string;
+  setUnit: (unit: AmountUnit) => Promise<void>;
+  // Amounts are always held in sats; these convert to and from the chosen unit
+  formatSats: (
+    sats: bigint | string | null | undefined,
+    opts?: Omit<FormatAmountOptions, "locale">,
+  ) => string;
+  parseAmount: (input: string) => bigint | null;
+};
+
+const AmountUnitContext = createContext<AmountUnitContextType | undefined>(undefined);
+
+export const useAmountUnit = () => {
+  const context = useContext(AmountUnitContext);
+  if (!context) {
+    throw new Error("useAmountUnit must be used within an AmountUnitProvider");
+  }
+  return context;
+};
+
+export const AmountUnitProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const [unit, setUnitState] = useState<AmountUnit>("sats");
+
+  useEffect(() => {
+    AsyncStorage.getItem(UNIT_STORAGE_KEY)
+      .then((stored) => {
+        if (isAmountUnit(stored)) setUnitState(stored);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const setUnit = useCallback(async (next: AmountUnit) => {
+    setUnitState(next);
+    await AsyncStorage.setItem(UNIT_STORAGE_KEY, next);
+  }, []);
+
+  const formatSats = useCallback(
+    (sats: bigint | string | null | undefined, opts?: Omit<FormatAmountOptions, "locale">) =>
+      formatAmount(sats, unit, opts),
+    [unit],
+  );
+
+  const parse = useCallback((input: string) => parseAmount(input, unit), [unit]);
+
+  const value = useMemo(
+    () => ({
+      unit,
+      unitLabel: AMOUNT_UNIT_LABELS[unit],
+      setUnit,
+      formatSats,
+      parseAmount: parse,
+    }),
+    [formatSats, parse, setUnit, unit],
+  );
+
+  return <AmountUnitContext.Provider value={value}>{children}</AmountUnitContext.Provider>;
+};
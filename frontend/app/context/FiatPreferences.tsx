@@ -0,0 +1,167 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import {
+  DEFAULT_EXCHANGE_RATE_PROVIDER_ID,
+  fetchExchangeRate,
+  fiatToSats,
+  formatFiatAmount,
+  getExchangeRateProvider,
+  isFiatCurrency,
+  satsToFiat,
+  type ExchangeRate,
+  type FiatCurrency,
+} from "../services/exchangeRates";
+
+const CURRENCY_STORAGE_KEY = "paysat.fiatCurrency";
+const PROVIDER_STORAGE_KEY = "paysat.exchangeRateProvider";
+const RATE_REFRESH_MS = 5 * 60_000;
+
+type FiatPreferencesContextType = {
+  // null hides fiat amounts entirely
+  currency: FiatCurrency | null;
+  providerId: string;
+  rate: ExchangeRate | null;
+  isLoading: boolean;
+  error: string | null;
+  setCurrency: (currency: FiatCurrency | null) => Promise<void>;
+  setProviderId: (providerId: string) => Promise<void>;
+  refreshRate: () => Promise<void>;
+  // "≈ $12.34", or null when there is no rate or amount to convert
+  formatSatsAsFiat: (sats: bigint | string | null | undefined) => string | null;
+  fiatToSats: (amount: string) => bigint | null;
+};
+
+const FiatPreferences = createContext<FiatPreferencesContextType | undefined>(undefined);
+
+export const useFiatPreferences = () => {
+  const context = useContext(FiatPreferences);
+  if (!context) {
+    throw new Error("useFiatPreferences must be used within a FiatPreferencesProvider");
+  }
+  return context;
+};
+
+export const FiatPreferencesProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const [currency, setCurrencyState] = useState<FiatCurrency | null>("USD");
+  const [providerId, setProviderIdState] = useState(DEFAULT_EXCHANGE_RATE_PROVIDER_ID);
+  const [rate, setRate] = useState<ExchangeRate | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const selectionRef = useRef({ currency, providerId });
+  selectionRef.current = { currency, providerId };
+
+  useEffect(() => {
+    const restore = async () => {
+      const [storedCurrency, storedProvider] = await Promise.all([
+        AsyncStorage.getItem(CURRENCY_STORAGE_KEY),
+        AsyncStorage.getItem(PROVIDER_STORAGE_KEY),
+      ]);
+      if (storedCurrency === "none") setCurrencyState(null);
+      else if (isFiatCurrency(storedCurrency)) setCurrencyState(storedCurrency);
+      if (storedProvider && getExchangeRateProvider(storedProvider)) {
+        setProviderIdState(storedProvider);
+      }
+    };
+    restore().catch(() => undefined);
+  }, []);
+
+  const refreshRate = useCallback(async () => {
+    if (!currency) {
+      setRate(null);
+      setError(null);
+      return;
+    }
+    // Drop late responses for a currency or provider the user has already switched away from
+    const isCurrent = () =>
+      selectionRef.current.currency === currency && selectionRef.current.providerId === providerId;
+    setIsLoading(true);
+    try {
+      const next = await fetchExchangeRate(providerId, currency);
+      if (!isCurrent()) return;
+      setRate(next);
+      setError(null);
+    } catch (err) {
+      if (!isCurrent()) return;
+      // Keep showing the last rate for this currency rather than blanking every amount
+      setRate((current) => (current?.currency === currency ? current : null));
+      setError(err instanceof Error ? err.message : "Unable to load exchange rate");
+    } finally {
+      if (isCurrent()) setIsLoading(false);
+    }
+  }, [currency, providerId]);
+
+  useEffect(() => {
+    refreshRate();
+    if (!currency) return;
+    const intervalId = setInterval(refreshRate, RATE_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [currency, refreshRate]);
+
+  const setCurrency = useCallback(async (next: FiatCurrency | null) => {
+    setCurrencyState(next);
+    setRate(null);
+    await AsyncStorage.setItem(CURRENCY_STORAGE_KEY, next ?? "none");
+  }, []);
+
+  const setProviderId = useCallback(async (next: string) => {
+    if (!getExchangeRateProvider(next)) {
+      throw new Error(`Unknown exchange rate provider: ${next}`);
+    }
+    setProviderIdState(next);
+    await AsyncStorage.setItem(PROVIDER_STORAGE_KEY, next);
+  }, []);
+
+  const formatSatsAsFiat = useCallback(
+    (sats: bigint | string | null | undefined) => {
+      if (!rate || sats === null || sats === undefined) return null;
+      if (typeof sats === "string" && !/^\d+$/.test(sats)) return null;
+      return `≈ ${formatFiatAmount(satsToFiat(BigInt(sats), rate), rate.currency)}`;
+    },
+    [rate],
+  );
+
+  const convertFiatToSats = useCallback(
+    (amount: string) => (rate ? fiatToSats(amount, rate) : null),
+    [rate],
+  );
+
+  const value = useMemo(
+    () => ({
+      currency,
+      providerId,
+      rate,
+      isLoading,
+      error,
+      setCurrency,
+      setProviderId,
+      refreshRate,
+      formatSatsAsFiat,
+      fiatToSats: convertFiatToSats,
+    }),
+    [
+      convertFiatToSats,
+      currency,
+      error,
+      formatSatsAsFiat,
+      isLoading,
+      providerId,
+      rate,
+      refreshRate,
+      setCurrency,
+      setProviderId,
+    ],
+  );
+
+  return <FiatPreferences.Provider value={value}>{children}</FiatPreferences.Provider>;
+};
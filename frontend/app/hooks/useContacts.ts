@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  findContactForRecord,
+  loadContactPaymentLinks,
+  loadContacts,
+  removeContact,
+  saveContact,
+  type Contact,
+  type ContactDraft,
+  type ContactPaymentLinks,
+} from "../services/contacts";
+import type { HistoryRecord } from "../services/payments";
+
+export type UseContactsResult = {
+  contacts: Contact[];
+  isLoading: boolean;
+  reload: () => Promise<void>;
+  save: (draft: ContactDraft) => Promise<Contact | null>;
+  remove: (contactId: string) => Promise<void>;
+  contactForRecord: (record: HistoryRecord) => Contact | null;
+};
+
+const byLabel = (a: Contact, b: Contact) => a.label.localeCompare(b.label);
+
+export const useContacts = (accountAddress: string | null | undefined): UseContactsResult => {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [links, setLinks] = useState<ContactPaymentLinks>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!accountAddress) {
+      setContacts([]);
+      setLinks({});
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const [nextContacts, nextLinks] = await Promise.all([
+        loadContacts(accountAddress),
+        loadContactPaymentLinks(accountAddress),
+      ]);
+      setContacts(nextContacts.sort(byLabel));
+      setLinks(nextLinks);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accountAddress]);
+
+  const save = useCallback(
+    async (draft: ContactDraft) => {
+      if (!accountAddress) return null;
+      const saved = await saveContact(accountAddress, draft);
+      setContacts((current) =>
+        [...current.filter((item) => item.id !== saved.id), saved].sort(byLabel),
+      );
+      return saved;
+    },
+    [accountAddress],
+  );
+
+  const remove = useCallback(
+    async (contactId: string) => {
+      if (!accountAddress) return;
+      await removeContact(accountAddress, contactId);
+      setContacts((current) => current.filter((item) => item.id !== contactId));
+    },
+    [accountAddress],
+  );
+
+  const contactForRecord = useCallback(
+    (record: HistoryRecord) => findContactForRecord(contacts, links, record),
+    [contacts, links],
+  );
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { contacts, isLoading, reload, save, remove, contactForRecord };
+};
@@ -0,0 +1,52 @@
+import { useCallback, useState } from "react";
+import type { Account, ProviderInterface } from "starknet";
+
+import { ESCROW_CONTRACT_ADDRESS } from "../config/constants";
+import { refundEscrowPayment } from "../services/escrow";
+import { removePendingPayment } from "../services/pendingPayments";
+import { releaseSpend } from "../services/spendingPolicy";
+
+export type UseEscrowRefundResult = {
+  refundingHash: string | null;
+  refundError: string | null;
+  refund: (paymentHash: string) => Promise<boolean>;
+};
+
+export const useEscrowRefund = (
+  account: Account | null,
+  provider: ProviderInterface | null,
+): UseEscrowRefundResult => {
+  const [refundingHash, setRefundingHash] = useState<string | null>(null);
+  const [refundError, setRefundError] = useState<string | null>(null);
+
+  const refund = useCallback(
+    async (paymentHash: string) => {
+      if (!account || !provider) return false;
+      setRefundingHash(paymentHash);
+      setRefundError(null);
+      try {
+        const { historyError } = await refundEscrowPayment({
+          account,
+          provider,
+          escrowContractAddress: ESCROW_CONTRACT_ADDRESS,
+          paymentHashHex: paymentHash,
+        });
+        await removePendingPayment(account.address, paymentHash);
+        await releaseSpend(account.address, paymentHash);
+        if (historyError) {
+          setRefundError(`Refund confirmed, but your payment history was not updated: ${historyError}`);
+        }
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Refund failed";
+        setRefundError(message);
+        return false;
+      } finally {
+        setRefundingHash(null);
+      }
+    },
+    [account, provider],
+  );
+
+  return { refundingHash, refundError, refund };
+};
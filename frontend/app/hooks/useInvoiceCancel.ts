@@ -0,0 +1,36 @@
+import { useCallback, useState } from "react";
+import type { Account } from "starknet";
+
+import { cancelReceiveInvoice } from "../services/payments";
+
+export type UseInvoiceCancelResult = {
+  cancellingLabel: string | null;
+  cancelError: string | null;
+  cancel: (label: string) => Promise<boolean>;
+};
+
+export const useInvoiceCancel = (account: Account | null | undefined): UseInvoiceCancelResult => {
+  const [cancellingLabel, setCancellingLabel] = useState<string | null>(null);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+
+  const cancel = useCallback(
+    async (label: string) => {
+      if (!account) return false;
+      setCancellingLabel(label);
+      setCancelError(null);
+      try {
+        await cancelReceiveInvoice(account, label);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to cancel invoice";
+        setCancelError(message);
+        return false;
+      } finally {
+        setCancellingLabel(null);
+      }
+    },
+    [account],
+  );
+
+  return { cancellingLabel, cancelError, cancel };
+};
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { fetchInvoiceStatus, type InvoiceStatus } from "../services/payments";
+
+const POLL_INTERVAL_MS = 3_000;
+
+// No more changes are expected once the invoice reaches one of these states
+const FINAL_STATES = new Set(["credited", "expired", "cancelled"]);
+
+export type UseInvoiceStatusResult = {
+  status: InvoiceStatus | null;
+  error: string | null;
+  reload: () => Promise<void>;
+};
+
+/** Follows an invoice from unpaid to paid to credited by polling GET /invoice/:label. */
+export const useInvoiceStatus = (label: string | null | undefined): UseInvoiceStatusResult => {
+  const [status, setStatus] = useState<InvoiceStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const labelRef = useRef(label);
+  labelRef.current = label;
+
+  const reload = useCallback(async () => {
+    if (!label) {
+      setStatus(null);
+      setError(null);
+      return;
+    }
+    try {
+      const next = await fetchInvoiceStatus(label);
+      // Drop late responses for an invoice the card has already moved on from
+      if (labelRef.current !== label) return;
+      setStatus(next);
+      setError(null);
+    } catch (err) {
+      if (labelRef.current !== label) return;
+      setError(err instanceof Error ? err.message : "Unable to check the invoice");
+    }
+  }, [label]);
+
+  useEffect(() => {
+    setStatus(null);
+    setError(null);
+    reload();
+  }, [reload]);
+
+  const isFinal = !!status && FINAL_STATES.has(status.state);
+
+  useEffect(() => {
+    if (!label || isFinal) return;
+    const timer = setInterval(reload, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isFinal, label, reload]);
+
+  return { status, error, reload };
+};
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ProviderInterface } from "starknet";
+
+import { ESCROW_CONTRACT_ADDRESS } from "../config/constants";
+import { fetchEscrowPosition } from "../services/escrow";
+import { isPaymentRefundedError, payLightningInvoice } from "../services/lightningPayment";
+import {
+  loadPendingPayments,
+  removePendingPayment,
+  updatePendingPayment,
+  type PendingPayment,
+} from "../services/pendingPayments";
+import { releaseSpend } from "../services/spendingPolicy";
+
+// A lock that never shows up on-chain after this long was dropped or reverted.
+const ABANDONED_LOCK_MS = 10 * 60_000;
+
+// Auto-resumed on load; failed entries wait for the user to retry or refund them.
+const RESUMABLE_STAGES: PendingPayment["stage"][] = ["locked", "paying"];
+
+export type UsePendingPaymentsResult = {
+  payments: PendingPayment[];
+  isLoading: boolean;
+  resumingHashes: string[];
+  error: string | null;
+  reload: () => Promise<void>;
+  resume: (paymentHash: string) => Promise<void>;
+};
+
+export const usePendingPayments = (
+  accountAddress: string | null | undefined,
+  provider: ProviderInterface | null,
+): UsePendingPaymentsResult => {
+  const [payments, setPayments] = useState<PendingPayment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resumingHashes, setResumingHashes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const reconciledAccountRef = useRef<string | null>(null);
+  const resumingRef = useRef(new Set<string>());
+
+  const reload = useCallback(async () => {
+    if (!accountAddress) {
+      setPayments([]);
+      return;
+    }
+    const stored = await loadPendingPayments(accountAddress);
+    setPayments(stored.sort((a, b) => b.createdAt - a.createdAt));
+  }, [accountAddress]);
+
+  const payPending = useCallback(
+    async (payment: PendingPayment) => {
+      if (!accountAddress || resumingRef.current.has(payment.paymentHash)) return;
+      resumingRef.current.add(payment.paymentHash);
+      setResumingHashes(Array.from(resumingRef.current));
+      try {
+        await updatePendingPayment(accountAddress, payment.paymentHash, {
+          stage: "paying",
+          error: null,
+        });
+        try {
+          await payLightningInvoice({
+            paymentHash: payment.paymentHash,
+            bolt11: payment.bolt11,
+            transactionHash: payment.lockTxHash,
+            amountSats: payment.amountless ? BigInt(payment.amountSats) : null,
+            quoteId: payment.quoteId ?? null,
+          });
+          await removePendingPayment(accountAddress, payment.paymentHash);
+        } catch (error) {
+          if (isPaymentRefundedError(error)) {
+            await removePendingPayment(accountAddress, payment.paymentHash);
+            await releaseSpend(accountAddress, payment.paymentHash);
+            return;
+          }
+          const message =
+            error instanceof Error ? error.message : "Lightning payment failed";
+          await updatePendingPayment(accountAddress, payment.paymentHash, {
+            stage: "failed",
+            error: message,
+          });
+        }
+      } finally {
+        resumingRef.current.delete(payment.paymentHash);
+        setResumingHashes(Array.from(resumingRef.current));
+      }
+    },
+    [accountAddress],
+  );
+
+  // Syncs stored entries with their escrow positions and returns the ones to resume
+  const reconcile = useCallback(async (): Promise<PendingPayment[]> => {
+    if (!accountAddress || !provider || !ESCROW_CONTRACT_ADDRESS) return [];
+
+    const stored = await loadPendingPayments(accountAddress);
+    const reconciled = await Promise.all(
+      stored.map(async (payment): Promise<PendingPayment | null> => {
+        let position;
+        try {
+          position = await fetchEscrowPosition(
+            provider,
+            ESCROW_CONTRACT_ADDRESS,
+            payment.paymentHash,
+          );
+        } catch {
+          return null;
+        }
+
+        if (position.phase === "Claimed" || position.phase === "Refunded") {
+          await removePendingPayment(accountAddress, payment.paymentHash);
+          return null;
+        }
+
+        if (position.phase === "None") {
+          if (Date.now() - payment.createdAt > ABANDONED_LOCK_MS) {
+            await removePendingPayment(accountAddress, payment.paymentHash);
+          }
+          return null;
+        }
+
+        const expiresAt = position.expiresAt || payment.expiresAt;
+        if (expiresAt && expiresAt <= Math.floor(Date.now() / 1000)) {
+          await updatePendingPayment(accountAddress, payment.paymentHash, {
+            expiresAt,
+            stage: "failed",
+            error: "Escrow expired before the Lightning payment completed",
+          });
+          return null;
+        }
+
+        // The lock is on-chain even if the app closed before recording it
+        const stage = payment.stage === "locking" ? "locked" : payment.stage;
+        await updatePendingPayment(accountAddress, payment.paymentHash, { expiresAt, stage });
+        return RESUMABLE_STAGES.includes(stage) ? { ...payment, expiresAt, stage } : null;
+      }),
+    );
+    return reconciled.filter((payment): payment is PendingPayment => payment !== null);
+  }, [accountAddress, provider]);
+
+  const resume = useCallback(
+    async (paymentHash: string) => {
+      if (!accountAddress) return;
+      setError(null);
+      try {
+        const stored = await loadPendingPayments(accountAddress);
+        const payment = stored.find((item) => item.paymentHash === paymentHash);
+        if (!payment) return;
+        await payPending(payment);
+        await reload();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to resume the payment");
+      }
+    },
+    [accountAddress, payPending, reload],
+  );
+
+  useEffect(() => {
+    if (!accountAddress) {
+      reconciledAccountRef.current = null;
+      setPayments([]);
+      return;
+    }
+
+    reload().catch(() => undefined);
+
+    if (!provider || reconciledAccountRef.current === accountAddress) return;
+    reconciledAccountRef.current = accountAddress;
+
+    const reportError = (err: unknown) => {
+      setError(err instanceof Error ? err.message : "Unable to check in-flight payments");
+    };
+
+    const run = async () => {
+      setIsLoading(true);
+      setError(null);
+      let resumable: PendingPayment[] = [];
+      try {
+        resumable = await reconcile();
+        await reload();
+      } catch (err) {
+        reportError(err);
+      } finally {
+        setIsLoading(false);
+      }
+
+      // Payments settle in the background; each one refreshes the card when it finishes
+      resumable.forEach((payment) => {
+        payPending(payment).then(reload).catch(reportError);
+      });
+    };
+    run();
+  }, [accountAddress, payPending, provider, reconcile, reload]);
+
+  return { payments, isLoading, resumingHashes, error, reload, resume };
+};
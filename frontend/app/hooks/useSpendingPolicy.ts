@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  DEFAULT_SPENDING_POLICY,
+  getSpentInWindow,
+  loadSpendingPolicy,
+  updateSpendingPolicy,
+  type SpendingPolicy,
+} from "../services/spendingPolicy";
+
+export type UseSpendingPolicyResult = {
+  policy: SpendingPolicy;
+  spentSats: bigint;
+  isLoading: boolean;
+  reload: () => Promise<void>;
+  save: (next: SpendingPolicy) => Promise<void>;
+};
+
+export const useSpendingPolicy = (
+  accountAddress: string | null | undefined,
+): UseSpendingPolicyResult => {
+  const [policy, setPolicy] = useState<SpendingPolicy>(DEFAULT_SPENDING_POLICY);
+  const [spentSats, setSpentSats] = useState(0n);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!accountAddress) {
+      setPolicy(DEFAULT_SPENDING_POLICY);
+      setSpentSats(0n);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const [nextPolicy, nextSpent] = await Promise.all([
+        loadSpendingPolicy(accountAddress),
+        getSpentInWindow(accountAddress),
+      ]);
+      setPolicy(nextPolicy);
+      setSpentSats(nextSpent);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accountAddress]);
+
+  const save = useCallback(
+    async (next: SpendingPolicy) => {
+      if (!accountAddress) return;
+      await updateSpendingPolicy(accountAddress, next);
+      setPolicy(next);
+    },
+    [accountAddress],
+  );
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { policy, spentSats, isLoading, reload, save };
+};
@@ -1,16 +1,36 @@
-import React, { useCallback, useMemo, useState } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { KeyboardAvoidingView, Platform, SafeAreaView, StyleSheet, View } from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 
+import { AmountUnitProvider } from "./context/AmountUnit";
+import { FiatPreferencesProvider } from "./context/FiatPreferences";
 import { StarknetConnectorProvider, useStarknetConnector } from "./context/StarknetConnector";
 import MainPage from "./pages/main";
 import PaymentsPage from "./pages/payments";
 import { BottomNavBar, MainTabKey } from "./components/BottomNavBar";
+import { parseDeepLink, type DeepLink } from "./utils/deepLinks";
 
 const Root: React.FC = () => {
   const { account } = useStarknetConnector();
   const [activeTab, setActiveTab] = useState<MainTabKey>("home");
   const [mainMode, setMainMode] = useState<"home" | "invoice" | "pay">("home");
+  const [deepLink, setDeepLink] = useState<DeepLink | null>(null);
+  const deepLinkIdRef = useRef(0);
+  // Set by +native-intent when the app is opened from a lightning: or paysat:// link
+  const { link } = useLocalSearchParams<{ link?: string }>();
+
+  useEffect(() => {
+    if (!link) return;
+    router.setParams({ link: undefined });
+    const action = parseDeepLink(link);
+    if (!action) return;
+    deepLinkIdRef.current += 1;
+    setDeepLink({ ...action, id: deepLinkIdRef.current });
+    const mode = action.kind === "pay" ? "pay" : "invoice";
+    setMainMode(mode);
+    setActiveTab(mode);
+  }, [link]);
 
   const handleTabChange = useCallback((tab: MainTabKey) => {
     setActiveTab(tab);
@@ -26,9 +46,14 @@ const Root: React.FC = () => {
 
   const mainPage = useMemo(
     () => (
-      <MainPage key="main" activeMode={mainMode} onModeChange={handleMainModeChange} />
+      <MainPage
+        key="main"
+        activeMode={mainMode}
+        onModeChange={handleMainModeChange}
+        deepLink={deepLink}
+      />
     ),
-    [handleMainModeChange, mainMode],
+    [deepLink, handleMainModeChange, mainMode],
   );
 
   const paymentsPage = useMemo(
@@ -69,7 +94,11 @@ const Root: React.FC = () => {
 export default function Index() {
   return (
     <StarknetConnectorProvider>
-      <Root />
+      <AmountUnitProvider>
+        <FiatPreferencesProvider>
+          <Root />
+        </FiatPreferencesProvider>
+      </AmountUnitProvider>
     </StarknetConnectorProvider>
   );
 }
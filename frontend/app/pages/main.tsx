@@ -3,11 +3,20 @@ import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
 
 import { UserTokenBalanceCard } from "../components/UserTokenBalanceCard";
 import { InvoiceRequestCard } from "../components/InvoiceRequestCard";
+import { LightningAddressCard } from "../components/LightningAddressCard";
+import { ReceiveOfferCard } from "../components/ReceiveOfferCard";
 import { RecentPaymentsCard } from "../components/RecentPaymentsCard";
+import { PendingPaymentsCard } from "../components/PendingPaymentsCard";
+import { PaymentReceiptModal } from "../components/PaymentReceiptModal";
 import { useStarknetConnector } from "../context/StarknetConnector";
+import { usePendingPayments } from "../hooks/usePendingPayments";
+import { useEscrowRefund } from "../hooks/useEscrowRefund";
+import { useInvoiceCancel } from "../hooks/useInvoiceCancel";
+import { useContacts } from "../hooks/useContacts";
 import { WalletAccessPanel } from "./login";
 import PayPage from "./pay";
-import type { HistoryRecord } from "../services/payments";
+import type { HistoryRecord, PaymentReceipt } from "../services/payments";
+import type { DeepLink } from "../utils/deepLinks";
 import { fetchPaymentHistoryByAddress } from "../services/payments";
 
 const shortenAddress = (address: string) => {
@@ -20,10 +29,15 @@ const shortenAddress = (address: string) => {
 type MainPageProps = {
   activeMode?: "home" | "invoice" | "pay";
   onModeChange?: (mode: "home" | "invoice" | "pay") => void;
+  deepLink?: DeepLink | null;
 };
 
-export default function MainPage({ activeMode = "home", onModeChange }: MainPageProps = {}) {
-  const { account, disconnectAccount } = useStarknetConnector();
+export default function MainPage({
+  activeMode = "home",
+  onModeChange,
+  deepLink = null,
+}: MainPageProps = {}) {
+  const { account, provider, disconnectAccount } = useStarknetConnector();
   const [activeAction, setActiveAction] = useState<string | null>(() => {
     if (activeMode === "invoice") return "invoice";
     if (activeMode === "pay") return "pay";
@@ -33,6 +47,18 @@ export default function MainPage({ activeMode = "home", onModeChange }: MainPage
   const [paymentsLoading, setPaymentsLoading] = useState(false);
   const [paymentsError, setPaymentsError] = useState<string | null>(null);
   const [reloadKey, setReloadKey] = useState(0);
+  const [openReceipt, setOpenReceipt] = useState<PaymentReceipt | null>(null);
+  const {
+    payments: pendingPayments,
+    isLoading: pendingLoading,
+    resumingHashes,
+    error: pendingError,
+    reload: reloadPendingPayments,
+    resume: resumePendingPayment,
+  } = usePendingPayments(account?.address, provider);
+  const { refundingHash, refundError, refund } = useEscrowRefund(account, provider);
+  const { cancellingLabel, cancelError, cancel: cancelInvoice } = useInvoiceCancel(account);
+  const { contactForRecord, reload: reloadContacts } = useContacts(account?.address);
 
   // Action buttons are provided by the bottom navigation bar; no in-page actions here.
 
@@ -46,6 +72,14 @@ export default function MainPage({ activeMode = "home", onModeChange }: MainPage
     }
   }, [activeMode, activeAction]);
 
+  useEffect(() => {
+    // Payments started from the pay screen may have left or cleared entries.
+    if (activeAction === null) {
+      reloadPendingPayments();
+      reloadContacts();
+    }
+  }, [activeAction, reloadContacts, reloadPendingPayments]);
+
   useEffect(() => {
     let active = true;
 
@@ -91,6 +125,24 @@ export default function MainPage({ activeMode = "home", onModeChange }: MainPage
     setReloadKey((key) => key + 1);
   }, [account?.address]);
 
+  const handleRefund = useCallback(
+    async (paymentHash: string) => {
+      const refunded = await refund(paymentHash);
+      if (refunded) {
+        await reloadPendingPayments();
+        setReloadKey((key) => key + 1);
+      }
+    },
+    [refund, reloadPendingPayments],
+  );
+
+  const handleCancelInvoice = useCallback(
+    async (label: string) => {
+      if (await cancelInvoice(label)) setReloadKey((key) => key + 1);
+    },
+    [cancelInvoice],
+  );
+
   // Navigation to actions is handled via BottomNavBar in index.tsx
 
   if (!account) {
@@ -115,9 +167,13 @@ export default function MainPage({ activeMode = "home", onModeChange }: MainPage
           showsVerticalScrollIndicator={false}
         >
           {activeAction === "invoice" ? (
-            <InvoiceRequestCard accountAddress={account.address} />
+            <>
+              <InvoiceRequestCard accountAddress={account.address} deepLink={deepLink} />
+              <LightningAddressCard account={account} />
+              <ReceiveOfferCard accountAddress={account.address} />
+            </>
           ) : null}
-          {activeAction === "pay" ? <PayPage /> : null}
+          {activeAction === "pay" ? <PayPage deepLink={deepLink} /> : null}
         </ScrollView>
       </View>
     );
@@ -150,16 +206,37 @@ export default function MainPage({ activeMode = "home", onModeChange }: MainPage
           </View>
         </View>
 
+        <PendingPaymentsCard
+          payments={pendingPayments}
+          isLoading={pendingLoading}
+          resumingHashes={resumingHashes}
+          onResume={resumePendingPayment}
+          refundingHash={refundingHash}
+          onRefund={handleRefund}
+        />
+
+        {pendingError ? <Text style={styles.refundErrorText}>{pendingError}</Text> : null}
+        {refundError ? <Text style={styles.refundErrorText}>{refundError}</Text> : null}
+
         <RecentPaymentsCard
           records={recentHistory}
           isLoading={paymentsLoading}
           error={paymentsError}
           onRetry={account?.address ? handleRetryFetchHistory : undefined}
+          refundingHash={refundingHash}
+          onRefund={handleRefund}
+          onViewReceipt={setOpenReceipt}
+          contactForRecord={contactForRecord}
+          cancellingLabel={cancellingLabel}
+          onCancelInvoice={handleCancelInvoice}
         />
 
+        {cancelError ? <Text style={styles.refundErrorText}>{cancelError}</Text> : null}
+
         {/* In-page action buttons removed to avoid duplication with bottom bar */}
 
       </ScrollView>
+      <PaymentReceiptModal receipt={openReceipt} onClose={() => setOpenReceipt(null)} />
     </View>
   );
 }
@@ -270,6 +347,10 @@ const styles = StyleSheet.create({
   actionLabelActive: {
     color: "#ffffff",
   },
+  refundErrorText: {
+    color: "#b91c1c",
+    fontSize: 14,
+  },
   actionScreenContent: {
     flexGrow: 1,
     gap: 24,
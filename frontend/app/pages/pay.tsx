@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Platform,
@@ -15,25 +15,99 @@ import {
   BTC_TOKEN_ADDRESS,
   BTC_TOKEN_DECIMALS,
   ESCROW_CONTRACT_ADDRESS,
+  LN_MAX_FEE_PERCENT,
 } from "../config/constants";
+import { useAmountUnit } from "../context/AmountUnit";
+import { useFiatPreferences } from "../context/FiatPreferences";
 import { useStarknetConnector } from "../context/StarknetConnector";
 import { useTokenBalance } from "../hooks/useTokenBalance";
 import { formatUnits } from "../utils/token/format";
+import { amountInputKeyboard, describeAmountPrecision } from "../utils/amountFormat";
+import type { DeepLink } from "../utils/deepLinks";
 import {
+  isPaymentRefundedError,
   lockLightningPayment,
   parseLightningInvoice,
+  payLightningInvoice,
+  preflightLightningPayment,
+  requoteBeforeLock,
+  type LightningPaymentPreflight,
+  type LightningPaymentResponse,
   type ParsedInvoice,
+  type PaymentProgressStage,
+  type RoutingFeeQuote,
 } from "../services/lightningPayment";
+import {
+  checkEscrowExpiryPolicy,
+  fetchEscrowPosition,
+  fetchVaultConfig,
+  type VaultConfig,
+} from "../services/escrow";
+import {
+  removePendingPayment,
+  savePendingPayment,
+  updatePendingPayment,
+} from "../services/pendingPayments";
+import { cancelFailedPayment } from "../services/payments";
+import { authorizeSpend, recordSpend, releaseSpend } from "../services/spendingPolicy";
+import {
+  findContactByDestination,
+  findContactForPayee,
+  linkPaymentToContact,
+  type Contact,
+  type ContactDraft,
+} from "../services/contacts";
+import { useContacts } from "../hooks/useContacts";
+import {
+  fetchLnurlInvoice,
+  resolveLnurlPayRequest,
+  type LnurlPayRequest,
+} from "../services/lnurl";
+import {
+  decodeBolt12Offer,
+  fetchBolt12OfferInvoice,
+  type Bolt12Offer,
+} from "../services/offers";
+import { buildPaymentReceipt } from "../services/receipts";
+import {
+  getPaymentTargetValue,
+  parsePaymentUri,
+  type PaymentTarget,
+} from "../utils/paymentUri";
+import { BatchPayCard } from "../components/BatchPayCard";
+import { ContactsModal } from "../components/ContactsModal";
+import { PaymentReceiptModal } from "../components/PaymentReceiptModal";
+import { QrScannerModal } from "../components/QrScannerModal";
 
-type SubmissionStage = "idle" | "locking" | "waiting" | "paying" | "complete";
+type SubmissionStage =
+  | "idle"
+  | "locking"
+  | "waiting"
+  | "paying"
+  | "lightning_paid"
+  | "claim_queued"
+  | "complete";
 
-const formatInvoiceAmount = (amountSats: bigint) => ({
-  btc: formatUnits(amountSats, 8),
-  sats: amountSats.toString(),
-});
+// Backend payment record stages shown in the stepper; "claimed" is handled on completion
+const PROGRESS_TO_STAGE: Partial<Record<PaymentProgressStage, SubmissionStage>> = {
+  pending: "paying",
+  lightning_paid: "lightning_paid",
+  claim_queued: "claim_queued",
+};
 
-export default function PayPage() {
+type PayPageProps = {
+  // Payment request handed over by a lightning: / paysat://pay link
+  deepLink?: DeepLink | null;
+};
+
+export default function PayPage({ deepLink = null }: PayPageProps = {}) {
   const { account, provider } = useStarknetConnector();
+  const { unit, unitLabel, formatSats, parseAmount } = useAmountUnit();
+  const { formatSatsAsFiat } = useFiatPreferences();
+  const toAmountInput = useCallback(
+    (sats: bigint) => formatSats(sats, { withUnit: false, grouping: false }),
+    [formatSats],
+  );
   const [invoiceInput, setInvoiceInput] = useState("");
   const [parsedInvoice, setParsedInvoice] = useState<ParsedInvoice | null>(null);
   const [parseError, setParseError] = useState<string | null>(null);
@@ -41,8 +115,32 @@ export default function PayPage() {
   const [stage, setStage] = useState<SubmissionStage>("idle");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
-  const [payResponse, setPayResponse] = useState<any | null>(null);
+  const [payResponse, setPayResponse] = useState<LightningPaymentResponse | null>(null);
   const [paidAmountSats, setPaidAmountSats] = useState<bigint | null>(null);
+  const [payRequest, setPayRequest] = useState<LnurlPayRequest | null>(null);
+  const [offer, setOffer] = useState<Bolt12Offer | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [lnurlAmountInput, setLnurlAmountInput] = useState("");
+  const [lnurlError, setLnurlError] = useState<string | null>(null);
+  const [isFetchingInvoice, setIsFetchingInvoice] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isReceiptOpen, setIsReceiptOpen] = useState(false);
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [isContactsOpen, setIsContactsOpen] = useState(false);
+  const [contactDraft, setContactDraft] = useState<ContactDraft | null>(null);
+  const [customAmountInput, setCustomAmountInput] = useState("");
+  const [preflight, setPreflight] = useState<LightningPaymentPreflight | null>(null);
+  const [preflightError, setPreflightError] = useState<string | null>(null);
+  const [isEstimatingFee, setIsEstimatingFee] = useState(false);
+  const [quoteRefreshKey, setQuoteRefreshKey] = useState(0);
+  const [vaultConfig, setVaultConfig] = useState<VaultConfig | null>(null);
+  const [vaultConfigError, setVaultConfigError] = useState<string | null>(null);
+  // Hash of a locked payment whose Lightning leg failed; the operator can refund it early
+  const [cancellableHash, setCancellableHash] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [refundNotice, setRefundNotice] = useState<string | null>(null);
+  const resolveRequestRef = useRef(0);
+  const preflightRequestRef = useRef(0);
 
   const { balance, refresh: refreshBalance } = useTokenBalance(
     BTC_TOKEN_ADDRESS,
@@ -54,27 +152,154 @@ export default function PayPage() {
 
   const balanceValue = balance ?? 0n;
 
-  const invoiceSummary = useMemo(() => {
+  const {
+    contacts,
+    save: saveContact,
+    remove: removeContact,
+  } = useContacts(account?.address);
+
+  // A Lightning address identifies the recipient better than the (often shared) payee node
+  const payeeContact = useMemo(
+    () =>
+      findContactByDestination(contacts, "lightning-address", payRequest?.lightningAddress) ??
+      findContactForPayee(contacts, parsedInvoice?.payee),
+    [contacts, parsedInvoice?.payee, payRequest?.lightningAddress],
+  );
+
+  const isAmountless = parsedInvoice !== null && parsedInvoice.amountSats === null;
+
+  const paymentAmountSats = useMemo(() => {
     if (!parsedInvoice) return null;
-    return formatInvoiceAmount(parsedInvoice.amountSats);
-  }, [parsedInvoice]);
+    if (parsedInvoice.amountSats !== null) return parsedInvoice.amountSats;
+    const amount = parseAmount(customAmountInput);
+    return amount !== null && amount > 0n ? amount : null;
+  }, [customAmountInput, parseAmount, parsedInvoice]);
+  const amountFiat = formatSatsAsFiat(paymentAmountSats);
 
-  const timeLeftSeconds = useMemo(() => {
-    if (!parsedInvoice?.expiresAt) return Infinity;
-    return parsedInvoice.expiresAt - Math.floor(Date.now() / 1000);
-  }, [parsedInvoice]);
+  // Older backends only return the bare proof; fill in the rest from what we sent
+  const paymentReceipt = useMemo(() => {
+    if (!payResponse) return null;
+    if (payResponse.receipt) return payResponse.receipt;
+    if (!payResponse.proof) return null;
+    return buildPaymentReceipt({
+      proof: payResponse.proof,
+      amountSats: paidAmountSats,
+      bolt11: parsedInvoice?.raw ?? null,
+      payer: account?.address ?? null,
+      lockTxHash: txHash,
+    });
+  }, [account?.address, paidAmountSats, parsedInvoice?.raw, payResponse, txHash]);
 
-  const expiresSoon = useMemo(() => {
-    return timeLeftSeconds <= 3600; // 1 hour
-  }, [timeLeftSeconds]);
+  useEffect(() => {
+    if (!provider || !ESCROW_CONTRACT_ADDRESS) return;
+    let active = true;
+    fetchVaultConfig(provider, ESCROW_CONTRACT_ADDRESS)
+      .then((config) => {
+        if (active) {
+          setVaultConfig(config);
+          setVaultConfigError(null);
+        }
+      })
+      .catch(() => {
+        if (active) setVaultConfigError("Unable to read the escrow configuration");
+      });
+    return () => {
+      active = false;
+    };
+  }, [provider]);
+
+  const expiryProblem = useMemo(() => {
+    if (!parsedInvoice) return null;
+    if (vaultConfigError) return vaultConfigError;
+    if (!vaultConfig) return null;
+    return checkEscrowExpiryPolicy({
+      invoiceExpiresAt: parsedInvoice.expiresAt,
+      expiryWindow: vaultConfig.expiryWindow,
+    });
+  }, [parsedInvoice, vaultConfig, vaultConfigError]);
+  const expiryBlocked = !vaultConfig || expiryProblem !== null;
 
   const hasSufficientBalance = useMemo(() => {
-    if (!parsedInvoice) return false;
-    return balanceValue >= parsedInvoice.amountSats;
-  }, [balanceValue, parsedInvoice]);
+    if (paymentAmountSats === null) return isAmountless;
+    return balanceValue >= paymentAmountSats;
+  }, [balanceValue, isAmountless, paymentAmountSats]);
 
   const missingEscrowAddress = !ESCROW_CONTRACT_ADDRESS;
 
+  useEffect(() => {
+    preflightRequestRef.current += 1;
+    const requestId = preflightRequestRef.current;
+    setPreflight(null);
+    setPreflightError(null);
+
+    if (
+      stage !== "idle" ||
+      !account ||
+      !provider ||
+      !parsedInvoice ||
+      paymentAmountSats === null ||
+      missingEscrowAddress ||
+      !hasSufficientBalance
+    ) {
+      setIsEstimatingFee(false);
+      return;
+    }
+
+    setIsEstimatingFee(true);
+    // Debounced so typing an amountless amount doesn't fire a simulation per keystroke
+    const timeoutId = setTimeout(async () => {
+      try {
+        const result = await preflightLightningPayment({
+          account,
+          provider,
+          parsedInvoice,
+          amountSats: paymentAmountSats,
+          escrowContractAddress: ESCROW_CONTRACT_ADDRESS,
+        });
+        if (preflightRequestRef.current === requestId) setPreflight(result);
+      } catch (error) {
+        if (preflightRequestRef.current === requestId) {
+          setPreflightError(
+            error instanceof Error ? error.message : "Unable to estimate the network fee",
+          );
+        }
+      } finally {
+        if (preflightRequestRef.current === requestId) setIsEstimatingFee(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeoutId);
+  }, [
+    account,
+    hasSufficientBalance,
+    missingEscrowAddress,
+    parsedInvoice,
+    paymentAmountSats,
+    provider,
+    quoteRefreshKey,
+    stage,
+  ]);
+
+  useEffect(() => {
+    // Paused while submitting: the submit path takes its own fresh quote after confirmation
+    if (!preflight || stage !== "idle" || isSubmitting) return;
+    // Re-quote shortly before expiry so the displayed fee is always one the backend still honours
+    const refreshInMs = (preflight.routingQuote.expiresAt - 15) * 1000 - Date.now();
+    const timeoutId = setTimeout(
+      () => setQuoteRefreshKey((key) => key + 1),
+      Math.max(refreshInMs, 0),
+    );
+    return () => clearTimeout(timeoutId);
+  }, [isSubmitting, preflight, stage]);
+
+  const networkFee = preflight?.networkFee ?? null;
+  const routingQuote = preflight?.routingQuote ?? null;
+  const cannotCoverGas = networkFee !== null && !networkFee.canCoverFee;
+  const cannotCoverRoutingFee =
+    routingQuote !== null && balanceValue < routingQuote.totalSats;
+  const preflightBlocked =
+    isEstimatingFee || preflightError !== null || cannotCoverGas || cannotCoverRoutingFee;
+
   const statusMessage = useMemo(() => {
     switch (stage) {
       case "locking":
@@ -83,6 +308,10 @@ export default function PayPage() {
         return "Waiting for Starknet confirmation";
       case "paying":
         return "Triggering Lightning payment";
+      case "lightning_paid":
+        return "Lightning payment settled";
+      case "claim_queued":
+        return "Operator is claiming the escrow on Starknet";
       case "complete":
         return "Payment completed";
       default:
@@ -90,26 +319,143 @@ export default function PayPage() {
     }
   }, [stage]);
 
-  const handleInvoiceChange = (value: string) => {
-    setInvoiceInput(value);
-    setParsedInvoice(null);
-    setParseError(null);
-    setSubmitError(null);
-    setStage("idle");
-    setTxHash(null);
-    setPayResponse(null);
+  const resolvePayRequest = useCallback(
+    async (target: PaymentTarget) => {
+      resolveRequestRef.current += 1;
+      const requestId = resolveRequestRef.current;
+      setIsResolving(true);
+      try {
+        if (target.kind === "offer") {
+          const decodedOffer = await decodeBolt12Offer(target.offer);
+          if (resolveRequestRef.current !== requestId) return;
+          setOffer(decodedOffer);
+          setLnurlAmountInput(
+            decodedOffer.amountSats !== null ? toAmountInput(decodedOffer.amountSats) : "",
+          );
+          return;
+        }
+        const request = await resolveLnurlPayRequest(getPaymentTargetValue(target));
+        if (resolveRequestRef.current !== requestId) return;
+        setPayRequest(request);
+        setLnurlAmountInput(
+          request.minSendableSats === request.maxSendableSats
+            ? toAmountInput(request.minSendableSats)
+            : "",
+        );
+      } catch (error) {
+        if (resolveRequestRef.current !== requestId) return;
+        const message =
+          error instanceof Error ? error.message : "Unable to resolve the payment request";
+        setParseError(message);
+      } finally {
+        if (resolveRequestRef.current === requestId) {
+          setIsResolving(false);
+        }
+      }
+    },
+    [toAmountInput],
+  );
+
+  const handleInvoiceChange = useCallback(
+    (value: string) => {
+      resolveRequestRef.current += 1;
+      setInvoiceInput(value);
+      setParsedInvoice(null);
+      setParseError(null);
+      setSubmitError(null);
+      setCancellableHash(null);
+      setRefundNotice(null);
+      setStage("idle");
+      setTxHash(null);
+      setPayResponse(null);
+      setPayRequest(null);
+      setOffer(null);
+      setIsResolving(false);
+      setLnurlAmountInput("");
+      setLnurlError(null);
+      setCustomAmountInput("");
+
+      if (!value.trim()) {
+        return;
+      }
+
+      try {
+        const target = parsePaymentUri(value);
+        if (target.kind !== "bolt11") {
+          resolvePayRequest(target);
+          return;
+        }
+        const parsed = parseLightningInvoice(target.invoice);
+        setParsedInvoice(parsed);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Unable to decode invoice";
+        setParseError(message);
+      }
+    },
+    [resolvePayRequest],
+  );
+
+  const handledDeepLinkRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!deepLink || deepLink.kind !== "pay" || handledDeepLinkRef.current === deepLink.id) return;
+    handledDeepLinkRef.current = deepLink.id;
+    // Never swap the request out from under a payment that is locking funds
+    if (isSubmitting) return;
+    setIsBatchMode(false);
+    handleInvoiceChange(deepLink.request);
+  }, [deepLink, handleInvoiceChange, isSubmitting]);
+
+  const handleScanned = (data: string) => {
+    setIsScannerOpen(false);
+    handleInvoiceChange(data);
+  };
+
+  const openContacts = (draft: ContactDraft | null = null) => {
+    setContactDraft(draft);
+    setIsContactsOpen(true);
+  };
+
+  const handleSelectContact = (contact: Contact) => {
+    setIsContactsOpen(false);
+    handleInvoiceChange(contact.destination);
+  };
+
+  const handleSavePayee = () => {
+    if (payRequest?.lightningAddress) {
+      openContacts({
+        label: "",
+        destinationType: "lightning-address",
+        destination: payRequest.lightningAddress,
+      });
+    } else if (parsedInvoice?.payee) {
+      openContacts({ label: "", destinationType: "node-pubkey", destination: parsedInvoice.payee });
+    }
+  };
 
-    if (!value.trim()) {
+  const handleRequestLnurlInvoice = async () => {
+    if (!payRequest && !offer) return;
+
+    const amountSats = parseAmount(lnurlAmountInput);
+    if (amountSats === null || amountSats <= 0n) {
+      setLnurlError(describeAmountPrecision(unit));
       return;
     }
 
+    setIsFetchingInvoice(true);
+    setLnurlError(null);
     try {
-      const parsed = parseLightningInvoice(value);
-      setParsedInvoice(parsed);
+      if (payRequest) {
+        setParsedInvoice(await fetchLnurlInvoice(payRequest, amountSats));
+      } else if (offer) {
+        setParsedInvoice(await fetchBolt12OfferInvoice(offer, amountSats));
+      }
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : "Unable to decode invoice";
-      setParseError(message);
+        error instanceof Error ? error.message : "Unable to fetch invoice";
+      setLnurlError(message);
+    } finally {
+      setIsFetchingInvoice(false);
     }
   };
 
@@ -119,6 +465,11 @@ export default function PayPage() {
       return;
     }
 
+    if (paymentAmountSats === null) {
+      setSubmitError(`Enter the amount of ${unitLabel} to pay`);
+      return;
+    }
+
     if (!account || !provider) {
       setSubmitError("Connect a Starknet account before paying");
       return;
@@ -134,121 +485,452 @@ export default function PayPage() {
       return;
     }
 
+    // Re-checked here because time has passed since the invoice was decoded
+    const expiryCheck = vaultConfig
+      ? checkEscrowExpiryPolicy({
+          invoiceExpiresAt: parsedInvoice.expiresAt,
+          expiryWindow: vaultConfig.expiryWindow,
+        })
+      : vaultConfigError ?? "Still loading the escrow configuration";
+    if (expiryCheck) {
+      setSubmitError(expiryCheck);
+      return;
+    }
+
+    if (isEstimatingFee || !preflight) {
+      setSubmitError(preflightError ?? "Still estimating the network fee");
+      return;
+    }
+
+    if (cannotCoverGas) {
+      setSubmitError(
+        `Not enough ${networkFee.feeTokenSymbol} to cover the Starknet network fee`,
+      );
+      return;
+    }
+
+    if (cannotCoverRoutingFee) {
+      setSubmitError("Insufficient BTC balance for the invoice plus routing fee");
+      return;
+    }
+
+    const approvedQuote = preflight.routingQuote;
+
     setIsSubmitting(true);
     setSubmitError(null);
+    setCancellableHash(null);
+    setRefundNotice(null);
+
+    const accountAddress = account.address;
+    try {
+      await authorizeSpend(accountAddress, approvedQuote.totalSats);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Payment was not authorized");
+      setIsSubmitting(false);
+      return;
+    }
+
+    // The confirmation prompt can outlast the quote; lock against a fresh one
+    let routingQuoteForLock: RoutingFeeQuote;
+    try {
+      routingQuoteForLock = await requoteBeforeLock(parsedInvoice, approvedQuote);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Unable to quote the routing fee");
+      setIsSubmitting(false);
+      setQuoteRefreshKey((key) => key + 1);
+      return;
+    }
+    const feeSats = routingQuoteForLock.feeSats;
+
     setStage("locking");
     setTxHash(null);
     setPayResponse(null);
     setPaidAmountSats(null);
 
+    // Persist before anything goes on-chain so an interrupted payment can be resumed
+    const paymentHash = parsedInvoice.paymentHash;
+    let lockConfirmed = false;
     try {
+      await savePendingPayment(accountAddress, {
+        paymentHash,
+        bolt11: parsedInvoice.raw,
+        amountSats: paymentAmountSats.toString(),
+        amountless: isAmountless,
+        quoteId: routingQuoteForLock.quoteId,
+        lockTxHash: null,
+        stage: "locking",
+        expiresAt: null,
+      });
+
       const { transactionHash } = await lockLightningPayment({
         account,
         provider,
         parsedInvoice,
+        amountSats: paymentAmountSats,
+        feeSats,
         escrowContractAddress: ESCROW_CONTRACT_ADDRESS,
-        maxFee: 100_000_000_000_000n,
+        maxFee: networkFee?.maxFee,
         onTransactionSent: (hash) => {
           setTxHash(hash);
           setStage("waiting");
+          updatePendingPayment(accountAddress, paymentHash, { lockTxHash: hash }).catch(() => undefined);
         },
       });
+      lockConfirmed = true;
+      await recordSpend(accountAddress, paymentHash, paymentAmountSats + feeSats);
+      if (payeeContact) {
+        await linkPaymentToContact(accountAddress, paymentHash, payeeContact.id);
+      }
 
-      setStage("paying");
-      const response = await fetch(process.env.EXPO_PUBLIC_APP_API_URL + "/pay", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          transaction_hash: transactionHash,
-          bolt11: parsedInvoice.raw,
-        }),
+      const position = await fetchEscrowPosition(
+        provider,
+        ESCROW_CONTRACT_ADDRESS,
+        paymentHash,
+      ).catch(() => null);
+      await updatePendingPayment(accountAddress, paymentHash, {
+        lockTxHash: transactionHash,
+        stage: "paying",
+        expiresAt: position?.expiresAt || null,
       });
 
-      const payload = await response.json().catch(() => ({}));
-      if (!response.ok) {
-        const message =
-          payload?.message || payload?.error || "Lightning payment failed";
-        throw new Error(message);
-      }
+      setStage("paying");
+      const payload = await payLightningInvoice(
+        {
+          paymentHash,
+          bolt11: parsedInvoice.raw,
+          transactionHash,
+          amountSats: isAmountless ? paymentAmountSats : null,
+          quoteId: routingQuoteForLock.quoteId,
+        },
+        {
+          onStage: (progress) => {
+            const next = PROGRESS_TO_STAGE[progress];
+            if (next) setStage(next);
+          },
+        },
+      );
+      await removePendingPayment(accountAddress, paymentHash);
 
       setPayResponse(payload);
-      setPaidAmountSats(parsedInvoice.amountSats);
+      setPaidAmountSats(paymentAmountSats);
       setStage("complete");
       await refreshBalance();
     } catch (error) {
       const message =
         error instanceof Error ? error.message : "Payment failed unexpectedly";
-      setSubmitError(message);
+      const refunded = isPaymentRefundedError(error);
+      if (refunded) {
+        // The operator already returned the lock; nothing is left to resume or cancel
+        setRefundNotice(message);
+      } else {
+        setSubmitError(message);
+        if (lockConfirmed) setCancellableHash(paymentHash);
+      }
       setStage("idle");
+      try {
+        if (refunded) {
+          await removePendingPayment(accountAddress, paymentHash);
+          await releaseSpend(accountAddress, paymentHash);
+          await refreshBalance();
+        } else if (lockConfirmed) {
+          await updatePendingPayment(accountAddress, paymentHash, {
+            stage: "failed",
+            error: message,
+          });
+        } else {
+          await removePendingPayment(accountAddress, paymentHash);
+        }
+      } catch {
+        // The pending list only helps resume later; the error shown above is what matters now
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleCancelAndRefund = async () => {
+    if (!account || !cancellableHash) return;
+    const accountAddress = account.address;
+    const paymentHash = cancellableHash;
+    setIsCancelling(true);
+    setSubmitError(null);
+    try {
+      await cancelFailedPayment(account, paymentHash);
+      await removePendingPayment(accountAddress, paymentHash);
+      await releaseSpend(accountAddress, paymentHash);
+      setCancellableHash(null);
+      setRefundNotice("Payment cancelled. The locked funds are back in your wallet.");
+      await refreshBalance();
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Unable to cancel the payment");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   return (
     <ScrollView
       contentContainerStyle={styles.container}
       keyboardShouldPersistTaps="handled"
       showsVerticalScrollIndicator={false}
     >
-      {stage === "idle" && !parsedInvoice ? (
+      {isBatchMode && account && provider ? (
+        <BatchPayCard
+          account={account}
+          provider={provider}
+          balanceSats={balanceValue}
+          vaultConfig={vaultConfig}
+          onExit={() => setIsBatchMode(false)}
+          onPaid={refreshBalance}
+        />
+      ) : null}
+
+      {!isBatchMode && stage === "idle" && !parsedInvoice && !payRequest && !offer ? (
         <View style={styles.heroCard}>
           <Text style={styles.heroTitle}>Pay Lightning Invoice</Text>
           <TextInput
             style={styles.input}
             multiline
-            placeholder="Paste BOLT11 invoice"
+            placeholder="Paste BOLT11 invoice, LNURL or Lightning address"
             placeholderTextColor="#94a3b8"
             value={invoiceInput}
             onChangeText={handleInvoiceChange}
             autoCapitalize="none"
             autoCorrect={false}
           />
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={() => setIsScannerOpen(true)}
+          >
+            <View style={styles.buttonContent}>
+              <Ionicons name="qr-code-outline" size={18} color="#334155" />
+              <Text style={styles.secondaryButtonText}>Scan QR code</Text>
+            </View>
+          </Pressable>
+          {account && !invoiceInput.trim() ? (
+            <Pressable style={styles.secondaryButton} onPress={() => openContacts()}>
+              <View style={styles.buttonContent}>
+                <Ionicons name="people-outline" size={18} color="#334155" />
+                <Text style={styles.secondaryButtonText}>Pay a contact</Text>
+              </View>
+            </Pressable>
+          ) : null}
+          {account && provider && !invoiceInput.trim() ? (
+            <Pressable
+              style={styles.secondaryButton}
+              onPress={() => setIsBatchMode(true)}
+            >
+              <View style={styles.buttonContent}>
+                <Ionicons name="layers-outline" size={18} color="#334155" />
+                <Text style={styles.secondaryButtonText}>Pay several invoices</Text>
+              </View>
+            </Pressable>
+          ) : null}
+          {isResolving ? (
+            <ActivityIndicator color="#2563eb" />
+          ) : null}
           {parseError ? (
             <Text style={styles.errorText}>{parseError}</Text>
           ) : null}
         </View>
       ) : null}
 
+      {stage === "idle" && (payRequest || offer) && !parsedInvoice ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            {payeeContact?.label ??
+              (payRequest
+                ? payRequest.lightningAddress ?? payRequest.domain
+                : offer?.issuer ?? "BOLT12 offer")}
+          </Text>
+          {payRequest?.description || offer?.description ? (
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryLabel}>Memo</Text>
+              <Text style={styles.summaryValue}>
+                {payRequest?.description ?? offer?.description}
+              </Text>
+            </View>
+          ) : null}
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>{`Amount (${unitLabel})`}</Text>
+            <TextInput
+              style={styles.amountInput}
+              keyboardType={amountInputKeyboard(unit)}
+              placeholder={
+                payRequest ? toAmountInput(payRequest.minSendableSats) : `Amount in ${unitLabel}`
+              }
+              placeholderTextColor="#94a3b8"
+              value={lnurlAmountInput}
+              onChangeText={(value) => {
+                setLnurlAmountInput(value);
+                setLnurlError(null);
+              }}
+              editable={
+                payRequest
+                  ? payRequest.minSendableSats !== payRequest.maxSendableSats
+                  : offer?.amountSats === null
+              }
+            />
+            {payRequest ? (
+              <Text style={styles.helperText}>
+                {`Between ${formatSats(payRequest.minSendableSats)} and ${formatSats(payRequest.maxSendableSats)}`}
+              </Text>
+            ) : null}
+          </View>
+          {lnurlError ? (
+            <Text style={styles.errorText}>{lnurlError}</Text>
+          ) : null}
+          <Pressable
+            style={[
+              styles.primaryButton,
+              (isFetchingInvoice || !lnurlAmountInput.trim()) &&
+                styles.primaryButtonDisabled,
+            ]}
+            onPress={handleRequestLnurlInvoice}
+            disabled={isFetchingInvoice || !lnurlAmountInput.trim()}
+          >
+            {isFetchingInvoice ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Continue</Text>
+            )}
+          </Pressable>
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={() => handleInvoiceChange("")}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
       {stage === "idle" && parsedInvoice ? (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Payment Amount</Text>
-          <View style={styles.amountContainer}>
-            <Text style={styles.amountBtc}>{invoiceSummary?.btc} BTC</Text>
-            <Text style={styles.amountSats}>{invoiceSummary?.sats} sats</Text>
-          </View>
+          {isAmountless ? (
+            <View style={styles.summaryItem}>
+              <TextInput
+                style={styles.amountInput}
+                keyboardType={amountInputKeyboard(unit)}
+                placeholder={`Amount in ${unitLabel}`}
+                placeholderTextColor="#94a3b8"
+                value={customAmountInput}
+                onChangeText={setCustomAmountInput}
+              />
+              <Text style={styles.helperText}>
+                {paymentAmountSats !== null
+                  ? [formatSats(paymentAmountSats), amountFiat].filter(Boolean).join(" · ")
+                  : "This invoice has no fixed amount. Choose how much to send."}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.amountContainer}>
+              <Text style={styles.amountBtc}>{formatSats(paymentAmountSats)}</Text>
+              {amountFiat ? <Text style={styles.amountSats}>{amountFiat}</Text> : null}
+            </View>
+          )}
           {parsedInvoice.description ? (
             <View style={styles.summaryItem}>
               <Text style={styles.summaryLabel}>Memo</Text>
               <Text style={styles.summaryValue}>{parsedInvoice.description}</Text>
             </View>
           ) : null}
-          {parsedInvoice.payee ? (
+          {payeeContact ? (
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryLabel}>Payee</Text>
+              <Text style={styles.summaryValue}>{payeeContact.label}</Text>
+              {payeeContact.notes ? (
+                <Text style={styles.helperText}>{payeeContact.notes}</Text>
+              ) : null}
+            </View>
+          ) : parsedInvoice.payee ? (
             <View style={styles.summaryItem}>
               <Text style={styles.summaryLabel}>Payee</Text>
               <Text style={styles.summaryMono}>
                 {`${parsedInvoice.payee.slice(0, 8)}…${parsedInvoice.payee.slice(-8)}`}
               </Text>
+              {account ? (
+                <Text style={styles.linkText} onPress={handleSavePayee}>
+                  Save as contact
+                </Text>
+              ) : null}
             </View>
           ) : null}
 
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>Starknet network fee</Text>
+            {isEstimatingFee ? (
+              <ActivityIndicator size="small" color="#2563eb" />
+            ) : (
+              <Text style={styles.summaryValue}>
+                {networkFee
+                  ? `${formatUnits(networkFee.overallFee, 18)} ${networkFee.feeTokenSymbol} (max ${formatUnits(networkFee.maxFee, 18)})`
+                  : preflight
+                  ? "Estimated after account deployment"
+                  : "—"}
+              </Text>
+            )}
+          </View>
+          {routingQuote ? (
+            <>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Lightning routing fee</Text>
+                <Text style={styles.summaryValue}>
+                  {`${formatSats(routingQuote.feeSats)} (limit ${LN_MAX_FEE_PERCENT}%)`}
+                </Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Total locked</Text>
+                <Text style={styles.summaryValue}>
+                  {formatSats(routingQuote.totalSats)}
+                </Text>
+                {formatSatsAsFiat(routingQuote.totalSats) ? (
+                  <Text style={styles.helperText}>{formatSatsAsFiat(routingQuote.totalSats)}</Text>
+                ) : null}
+              </View>
+            </>
+          ) : null}
+
           {submitError ? (
             <Text style={styles.errorText}>{submitError}</Text>
           ) : null}
-          {!hasSufficientBalance ? (
+          {cancellableHash ? (
+            <Pressable
+              style={[styles.secondaryButton, isCancelling && styles.primaryButtonDisabled]}
+              onPress={handleCancelAndRefund}
+              disabled={isCancelling}
+            >
+              {isCancelling ? (
+                <ActivityIndicator color="#334155" />
+              ) : (
+                <Text style={styles.secondaryButtonText}>Cancel and refund</Text>
+              )}
+            </Pressable>
+          ) : null}
+          {refundNotice ? (
+            <Text style={styles.noticeText}>{refundNotice}</Text>
+          ) : null}
+          {preflightError ? (
+            <Text style={styles.errorText}>{preflightError}</Text>
+          ) : null}
+          {cannotCoverRoutingFee ? (
             <Text style={styles.errorText}>
-              Insufficient balance to pay this invoice.
+              Insufficient balance to cover the invoice plus routing fee.
+            </Text>
+          ) : null}
+          {cannotCoverGas ? (
+            <Text style={styles.errorText}>
+              {`Not enough ${networkFee.feeTokenSymbol} to cover the Starknet network fee.`}
             </Text>
           ) : null}
-          {expiresSoon ? (
+          {!hasSufficientBalance ? (
             <Text style={styles.errorText}>
-              {timeLeftSeconds <= 0
-                ? "This invoice has expired."
-                : "This invoice has less than 1 hour remaining."}
+              Insufficient balance to pay this invoice.
             </Text>
           ) : null}
+          {expiryProblem ? (
+            <Text style={styles.errorText}>{expiryProblem}</Text>
+          ) : null}
           {missingEscrowAddress ? (
             <Text style={styles.errorText}>
               Escrow contract address is not configured in the app settings.
@@ -258,20 +940,26 @@ export default function PayPage() {
             style={[
               styles.primaryButton,
               (isSubmitting ||
+                isCancelling ||
                 !parsedInvoice ||
+                paymentAmountSats === null ||
                 parseError !== null ||
                 !hasSufficientBalance ||
-                expiresSoon ||
-                missingEscrowAddress) && styles.primaryButtonDisabled,
+                expiryBlocked ||
+                missingEscrowAddress ||
+                preflightBlocked) && styles.primaryButtonDisabled,
             ]}
             onPress={handleSubmit}
             disabled={
               isSubmitting ||
+              isCancelling ||
               !parsedInvoice ||
+              paymentAmountSats === null ||
               parseError !== null ||
               !hasSufficientBalance ||
-              expiresSoon ||
-              missingEscrowAddress
+              expiryBlocked ||
+              missingEscrowAddress ||
+              preflightBlocked
             }
           >
             {isSubmitting ? (
@@ -292,6 +980,8 @@ export default function PayPage() {
             {renderStep("Lock funds on Starknet", stage, "locking")}
             {renderStep("Wait for Starknet confirmation", stage, "waiting")}
             {renderStep("Pay invoice via Lightning", stage, "paying")}
+            {renderStep("Lightning payment settled", stage, "lightning_paid")}
+            {renderStep("Claim escrow on Starknet", stage, "claim_queued")}
           </View>
         </View>
       ) : null}
@@ -301,14 +991,40 @@ export default function PayPage() {
           <Ionicons name="checkmark-circle" size={64} color="#16a34a" />
           <Text style={styles.successTitle}>Payment Success</Text>
           <Text style={styles.successAmount}>
-            {paidAmountSats
-              ? `${formatUnits(paidAmountSats, 8)} BTC · ${paidAmountSats.toString()} sats`
-              : parsedInvoice
-              ? `${formatUnits(parsedInvoice.amountSats, 8)} BTC · ${parsedInvoice.amountSats.toString()} sats`
+            {(paidAmountSats ?? paymentAmountSats) !== null
+              ? formatSats(paidAmountSats ?? paymentAmountSats)
               : ""}
           </Text>
+          {paymentReceipt ? (
+            <Pressable
+              style={[styles.secondaryButton, styles.receiptButton]}
+              onPress={() => setIsReceiptOpen(true)}
+            >
+              <Text style={styles.secondaryButtonText}>View receipt</Text>
+            </Pressable>
+          ) : null}
         </View>
       ) : null}
+
+      <PaymentReceiptModal
+        receipt={isReceiptOpen ? paymentReceipt : null}
+        onClose={() => setIsReceiptOpen(false)}
+      />
+
+      <ContactsModal
+        visible={isContactsOpen}
+        contacts={contacts}
+        initialDraft={contactDraft}
+        onSelect={handleSelectContact}
+        onSave={saveContact}
+        onRemove={removeContact}
+        onClose={() => setIsContactsOpen(false)}
+      />
+      <QrScannerModal
+        visible={isScannerOpen}
+        onScanned={handleScanned}
+        onClose={() => setIsScannerOpen(false)}
+      />
     </ScrollView>
   );
 }
@@ -367,6 +1083,29 @@ const styles = StyleSheet.create({
     color: "#dc2626",
     fontSize: 14,
   },
+  helperText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  noticeText: {
+    color: "#16a34a",
+    fontSize: 14,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2563eb",
+  },
+  amountInput: {
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    fontSize: 16,
+    color: "#0f172a",
+    backgroundColor: "#f8fafc",
+  },
   amountContainer: {
     marginTop: 4,
     marginBottom: 8,
@@ -414,6 +1153,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  secondaryButton: {
+    marginHorizontal: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  buttonContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  secondaryButtonText: {
+    color: "#334155",
+    fontSize: 15,
+    fontWeight: "600",
+  },
   loaderCard: {
     backgroundColor: "#ffffff",
     borderRadius: 16,
@@ -487,6 +1244,10 @@ const styles = StyleSheet.create({
     color: "#14532d",
     textAlign: "center",
   },
+  receiptButton: {
+    marginTop: 8,
+    paddingHorizontal: 24,
+  },
 });
 
 function renderStep(
@@ -494,7 +1255,14 @@ function renderStep(
   stage: SubmissionStage,
   self: SubmissionStage
 ) {
-  const order: SubmissionStage[] = ["locking", "waiting", "paying", "complete"];
+  const order: SubmissionStage[] = [
+    "locking",
+    "waiting",
+    "paying",
+    "lightning_paid",
+    "claim_queued",
+    "complete",
+  ];
   const idxSelf = order.indexOf(self);
   const idxStage = order.indexOf(stage);
   const isActive = stage === self;
@@ -9,9 +9,15 @@ import {
 } from "react-native";
 
 import { useStarknetConnector } from "../context/StarknetConnector";
-import type { HistoryRecord } from "../services/payments";
+import type { HistoryRecord, PaymentReceipt } from "../services/payments";
 import { fetchPaymentHistoryByAddress } from "../services/payments";
 import { PaymentRow } from "../components/PaymentRow";
+import { PaymentReceiptModal } from "../components/PaymentReceiptModal";
+import { DisplayPreferencesCard } from "../components/DisplayPreferencesCard";
+import { SpendingLimitCard } from "../components/SpendingLimitCard";
+import { useContacts } from "../hooks/useContacts";
+import { useInvoiceCancel } from "../hooks/useInvoiceCancel";
+import { useSpendingPolicy } from "../hooks/useSpendingPolicy";
 import { getHistoryIdentifier } from "../utils/paymentsFormatting";
 import { WalletAccessPanel } from "./login";
 
@@ -25,7 +31,12 @@ export default function PaymentsPage({ isActive = true }: PaymentsPageProps = {}
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [openReceipt, setOpenReceipt] = useState<PaymentReceipt | null>(null);
   const isMountedRef = useRef(true);
+  const spending = useSpendingPolicy(account?.address);
+  const { reload: reloadSpending } = spending;
+  const { contactForRecord, reload: reloadContacts } = useContacts(account?.address);
+  const { cancellingLabel, cancelError, cancel: cancelInvoice } = useInvoiceCancel(account);
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -73,12 +84,22 @@ export default function PaymentsPage({ isActive = true }: PaymentsPageProps = {}
   useEffect(() => {
     if (isActive) {
       loadPayments();
+      reloadSpending();
+      reloadContacts();
     }
-  }, [isActive, loadPayments]);
+  }, [isActive, loadPayments, reloadContacts, reloadSpending]);
 
   const handleRefresh = useCallback(() => {
     loadPayments({ silent: true });
-  }, [loadPayments]);
+    reloadSpending();
+  }, [loadPayments, reloadSpending]);
+
+  const handleCancelInvoice = useCallback(
+    async (label: string) => {
+      if (await cancelInvoice(label)) loadPayments({ silent: true });
+    },
+    [cancelInvoice, loadPayments],
+  );
 
   const content = useMemo(() => {
     if (loading && history.length === 0 && !error) {
@@ -115,13 +136,32 @@ export default function PaymentsPage({ isActive = true }: PaymentsPageProps = {}
 
     return (
       <View style={styles.list}>
+        {cancelError ? <Text style={styles.cancelErrorText}>{cancelError}</Text> : null}
         {history.map((entry, index) => {
           const key = getHistoryIdentifier(entry) || entry.id || `history-${index}`;
-          return <PaymentRow key={key} record={entry} />;
+          return (
+            <PaymentRow
+              key={key}
+              record={entry}
+              contact={contactForRecord(entry)}
+              onViewReceipt={setOpenReceipt}
+              isCancelling={entry.kind === "invoice" && cancellingLabel === entry.invoice.label}
+              onCancelInvoice={cancellingLabel === null ? handleCancelInvoice : undefined}
+            />
+          );
         })}
       </View>
     );
-  }, [error, handleRefresh, loading, history]);
+  }, [
+    cancelError,
+    cancellingLabel,
+    contactForRecord,
+    error,
+    handleCancelInvoice,
+    handleRefresh,
+    loading,
+    history,
+  ]);
 
   if (!account) {
     return (
@@ -156,8 +196,16 @@ export default function PaymentsPage({ isActive = true }: PaymentsPageProps = {}
             All sent payments and received invoices linked to your connected Starknet account.
           </Text>
         </View>
+        <SpendingLimitCard
+          policy={spending.policy}
+          spentSats={spending.spentSats}
+          isLoading={spending.isLoading}
+          onSave={spending.save}
+        />
+        <DisplayPreferencesCard />
         {content}
       </ScrollView>
+      <PaymentReceiptModal receipt={openReceipt} onClose={() => setOpenReceipt(null)} />
     </View>
   );
 }
@@ -227,4 +275,8 @@ const styles = StyleSheet.create({
     padding: 20,
     gap: 16,
   },
+  cancelErrorText: {
+    color: "#b91c1c",
+    fontSize: 14,
+  },
 });
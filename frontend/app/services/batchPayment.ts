@@ -0,0 +1,237 @@
+import type { AccountInterface, ProviderInterface } from "starknet";
+
+import { LN_BATCH_MAX_PAYMENTS } from "../config/constants";
+import {
+  fetchLockQuote,
+  isPaymentRefundedError,
+  parseLightningInvoice,
+  requoteBeforeLock,
+  waitForLightningPayment,
+  type LightningPaymentProof,
+  type ParsedInvoice,
+  type RoutingFeeQuote,
+} from "./lightningPayment";
+import type { PaymentReceipt } from "./payments";
+import {
+  estimateCallsFee,
+  executeCallsAndWait,
+  formatBatchLockForLnPaymentCalls,
+  type CallsFeeEstimate,
+} from "./starknetCalls";
+
+/** Splits pasted text into invoices; one per line, comma or space separated. */
+export const parseLightningInvoiceBatch = (input: string): ParsedInvoice[] => {
+  const entries = input
+    .split(/[\s,]+/)
+    .map((entry) => entry.replace(/^lightning:/i, ""))
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    throw new Error("Paste at least one invoice");
+  }
+  if (entries.length > LN_BATCH_MAX_PAYMENTS) {
+    throw new Error(`A batch can hold at most ${LN_BATCH_MAX_PAYMENTS} invoices`);
+  }
+
+  const seen = new Set<string>();
+  return entries.map((entry, index) => {
+    let invoice: ParsedInvoice;
+    try {
+      invoice = parseLightningInvoice(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid invoice";
+      throw new Error(`Invoice ${index + 1}: ${message}`);
+    }
+    // Each invoice needs its own amount prompt otherwise; pay those one at a time
+    if (invoice.amountSats === null) {
+      throw new Error(`Invoice ${index + 1} has no amount; pay it on its own`);
+    }
+    if (seen.has(invoice.paymentHash)) {
+      throw new Error(`Invoice ${index + 1} appears more than once`);
+    }
+    seen.add(invoice.paymentHash);
+    return invoice;
+  });
+};
+
+export type LightningBatchItem = {
+  invoice: ParsedInvoice;
+  routingQuote: RoutingFeeQuote;
+};
+
+export type LightningBatchPreflight = {
+  items: LightningBatchItem[];
+  totalAmountSats: bigint;
+  totalFeeSats: bigint;
+  // null when the account is not deployed yet; it is deployed on first payment
+  networkFee: CallsFeeEstimate | null;
+};
+
+type LightningBatchOptions = {
+  account: AccountInterface & { address: string };
+  provider: ProviderInterface;
+  escrowContractAddress: string;
+};
+
+const buildBatchLockCalls = (
+  account: { address: string },
+  escrowContractAddress: string,
+  items: LightningBatchItem[],
+) => {
+  if (!escrowContractAddress) {
+    throw new Error("Escrow contract address is required");
+  }
+  return formatBatchLockForLnPaymentCalls(
+    escrowContractAddress,
+    account.address,
+    items.map(({ invoice, routingQuote }) => ({
+      amountSats: routingQuote.totalSats,
+      paymentHashHex: `0x${invoice.paymentHash}`,
+    })),
+  );
+};
+
+export const preflightLightningBatch = async ({
+  account,
+  provider,
+  escrowContractAddress,
+  invoices,
+}: LightningBatchOptions & { invoices: ParsedInvoice[] }): Promise<LightningBatchPreflight> => {
+  const items = await Promise.all(
+    invoices.map(async (invoice, index) => {
+      try {
+        return { invoice, routingQuote: await fetchLockQuote(invoice, invoice.amountSats ?? undefined) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to quote the routing fee";
+        throw new Error(`Invoice ${index + 1}: ${message}`);
+      }
+    }),
+  );
+
+  const calls = buildBatchLockCalls(account, escrowContractAddress, items);
+  const networkFee = await estimateCallsFee(account, provider, calls);
+
+  return {
+    items,
+    totalAmountSats: items.reduce((sum, item) => sum + item.routingQuote.amountSats, 0n),
+    totalFeeSats: items.reduce((sum, item) => sum + item.routingQuote.feeSats, 0n),
+    networkFee,
+  };
+};
+
+/** Fresh quotes for every item right before signing; fails if any fee rose above the approved one. */
+export const requoteBatchBeforeLock = (items: LightningBatchItem[]): Promise<LightningBatchItem[]> =>
+  Promise.all(
+    items.map(async ({ invoice, routingQuote }, index) => {
+      try {
+        return { invoice, routingQuote: await requoteBeforeLock(invoice, routingQuote) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to quote the routing fee";
+        throw new Error(`Invoice ${index + 1}: ${message}`);
+      }
+    }),
+  );
+
+export const lockLightningBatch = async ({
+  account,
+  provider,
+  escrowContractAddress,
+  items,
+  maxFee,
+  onTransactionSent,
+}: LightningBatchOptions & {
+  items: LightningBatchItem[];
+  maxFee?: bigint;
+  onTransactionSent?: (txHash: string) => void;
+}) => {
+  const calls = buildBatchLockCalls(account, escrowContractAddress, items);
+  return executeCallsAndWait(account, provider, calls, { maxFee, onSent: onTransactionSent });
+};
+
+export type LightningBatchResult = {
+  payment_hash: string;
+  status: string;
+  status_url?: string;
+  error?: string;
+  message?: string;
+  proof?: LightningPaymentProof;
+  receipt?: PaymentReceipt;
+};
+
+export type LightningBatchResponse = {
+  status: "ok" | "partial" | "failed";
+  results: LightningBatchResult[];
+};
+
+export const requestLightningBatchPayment = async ({
+  items,
+  transactionHash,
+  async: asyncMode = false,
+}: {
+  items: LightningBatchItem[];
+  transactionHash?: string | null;
+  async?: boolean;
+}): Promise<LightningBatchResponse> => {
+  const response = await fetch(process.env.EXPO_PUBLIC_APP_API_URL + "/pay/batch", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      payments: items.map(({ invoice, routingQuote }) => ({
+        bolt11: invoice.raw,
+        quote_id: routingQuote.quoteId,
+      })),
+      ...(transactionHash ? { transaction_hash: transactionHash } : {}),
+      ...(asyncMode ? { async: true } : {}),
+    }),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok && !Array.isArray(payload?.results)) {
+    throw new Error(payload?.message || payload?.error || "Batch payment failed");
+  }
+  return payload as LightningBatchResponse;
+};
+
+export type LightningBatchOutcome =
+  | { paymentHash: string; ok: true; proof?: LightningPaymentProof; receipt?: PaymentReceipt }
+  // `refunded` when the operator returned the lock instead of paying
+  | { paymentHash: string; ok: false; error: string; refunded?: boolean };
+
+/** Hands the batch to the backend and polls every hash until it settles or fails on its own. */
+export const payLightningBatch = async (
+  items: LightningBatchItem[],
+  transactionHash: string,
+  { onOutcome }: { onOutcome?: (outcome: LightningBatchOutcome) => void } = {},
+): Promise<LightningBatchOutcome[]> => {
+  const accepted = await requestLightningBatchPayment({
+    items,
+    transactionHash,
+    async: true,
+  });
+
+  return Promise.all(
+    accepted.results.map(async (result): Promise<LightningBatchOutcome> => {
+      const paymentHash = result.payment_hash.replace(/^0x/, "").toLowerCase();
+      let outcome: LightningBatchOutcome;
+      if (result.status === "failed") {
+        outcome = { paymentHash, ok: false, error: result.message || result.error || "Payment failed" };
+      } else {
+        try {
+          const settled = await waitForLightningPayment(result.payment_hash);
+          outcome = { paymentHash, ok: true, proof: settled.proof, receipt: settled.receipt };
+        } catch (error) {
+          outcome = {
+            paymentHash,
+            ok: false,
+            error: error instanceof Error ? error.message : "Payment failed",
+            refunded: isPaymentRefundedError(error),
+          };
+        }
+      }
+      onOutcome?.(outcome);
+      return outcome;
+    }),
+  );
+};
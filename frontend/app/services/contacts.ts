@@ -0,0 +1,220 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { parseLightningInvoice } from "./lightningPayment";
+import type { HistoryRecord } from "./payments";
+
+export type ContactDestinationType = "lightning-address" | "node-pubkey" | "starknet-address";
+
+export type Contact = {
+  id: string;
+  label: string;
+  destinationType: ContactDestinationType;
+  destination: string;
+  notes?: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ContactDraft = Pick<Contact, "label" | "destinationType" | "destination"> & {
+  id?: string;
+  notes?: string | null;
+};
+
+// payment hash (no 0x) -> contact id, for payments started from a saved contact
+export type ContactPaymentLinks = Record<string, string>;
+
+const CONTACTS_PREFIX = "paysat.contacts.";
+const LINKS_PREFIX = "paysat.contactPayments.";
+
+const LIGHTNING_ADDRESS_PATTERN = /^[a-z0-9._+-]+@[a-z0-9.-]+\.[a-z0-9-]+$/;
+const NODE_PUBKEY_PATTERN = /^0[23][0-9a-f]{64}$/;
+const STARKNET_ADDRESS_PATTERN = /^0x[0-9a-f]{1,64}$/;
+
+const contactsKey = (accountAddress: string) =>
+  `${CONTACTS_PREFIX}${accountAddress.toLowerCase()}`;
+const linksKey = (accountAddress: string) => `${LINKS_PREFIX}${accountAddress.toLowerCase()}`;
+
+const normalizeHash = (paymentHash: string) =>
+  (paymentHash.startsWith("0x") ? paymentHash.slice(2) : paymentHash).toLowerCase();
+
+const createContactId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/** Validates and canonicalises a destination so lookups can compare plain strings. */
+export const normalizeContactDestination = (
+  destinationType: ContactDestinationType,
+  destination: string,
+): string => {
+  const value = destination.trim().toLowerCase();
+  switch (destinationType) {
+    case "lightning-address": {
+      const address = value.startsWith("lightning:") ? value.slice("lightning:".length) : value;
+      if (!LIGHTNING_ADDRESS_PATTERN.test(address)) {
+        throw new Error("Enter a Lightning address like name@domain.com");
+      }
+      return address;
+    }
+    case "node-pubkey":
+      if (!NODE_PUBKEY_PATTERN.test(value)) {
+        throw new Error("Node pubkeys are 66 hex characters starting with 02 or 03");
+      }
+      return value;
+    case "starknet-address": {
+      if (!STARKNET_ADDRESS_PATTERN.test(value)) {
+        throw new Error("Enter a 0x-prefixed Starknet address");
+      }
+      // Strip leading zeros so padded and unpadded forms of the same felt match
+      return `0x${value.slice(2).replace(/^0+(?=.)/, "")}`;
+    }
+  }
+};
+
+export async function loadContacts(accountAddress: string): Promise<Contact[]> {
+  if (!accountAddress) return [];
+  const raw = await AsyncStorage.getItem(contactsKey(accountAddress));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item): item is Contact =>
+        !!item &&
+        typeof item === "object" &&
+        typeof item.id === "string" &&
+        typeof item.label === "string" &&
+        typeof item.destination === "string",
+    );
+  } catch {
+    return [];
+  }
+}
+
+async function writeContacts(accountAddress: string, contacts: Contact[]) {
+  if (contacts.length === 0) {
+    await AsyncStorage.removeItem(contactsKey(accountAddress));
+    return;
+  }
+  await AsyncStorage.setItem(contactsKey(accountAddress), JSON.stringify(contacts));
+}
+
+/** Creates a contact, or updates it when `draft.id` is set. Destinations are unique per account. */
+export async function saveContact(accountAddress: string, draft: ContactDraft): Promise<Contact> {
+  const label = draft.label.trim();
+  if (!label) {
+    throw new Error("Give the contact a name");
+  }
+  const destination = normalizeContactDestination(draft.destinationType, draft.destination);
+
+  const contacts = await loadContacts(accountAddress);
+  const duplicate = contacts.find(
+    (item) =>
+      item.id !== draft.id &&
+      item.destinationType === draft.destinationType &&
+      item.destination === destination,
+  );
+  if (duplicate) {
+    throw new Error(`This destination is already saved as ${duplicate.label}`);
+  }
+
+  const now = Date.now();
+  const existing = draft.id ? contacts.find((item) => item.id === draft.id) : undefined;
+  const next: Contact = {
+    id: existing?.id ?? createContactId(),
+    label,
+    destinationType: draft.destinationType,
+    destination,
+    notes: draft.notes?.trim() || null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await writeContacts(accountAddress, [
+    ...contacts.filter((item) => item.id !== next.id),
+    next,
+  ]);
+  return next;
+}
+
+export async function removeContact(accountAddress: string, contactId: string) {
+  const contacts = await loadContacts(accountAddress);
+  await writeContacts(
+    accountAddress,
+    contacts.filter((item) => item.id !== contactId),
+  );
+}
+
+export async function loadContactPaymentLinks(accountAddress: string): Promise<ContactPaymentLinks> {
+  if (!accountAddress) return {};
+  const raw = await AsyncStorage.getItem(linksKey(accountAddress));
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Lightning addresses are served by custodial nodes shared by many users, so the payee
+// pubkey can't tell them apart; remember which contact each payment was made to instead
+export async function linkPaymentToContact(
+  accountAddress: string,
+  paymentHash: string,
+  contactId: string,
+) {
+  const links = await loadContactPaymentLinks(accountAddress);
+  await AsyncStorage.setItem(
+    linksKey(accountAddress),
+    JSON.stringify({ ...links, [normalizeHash(paymentHash)]: contactId }),
+  );
+}
+
+export const findContactByDestination = (
+  contacts: Contact[],
+  destinationType: ContactDestinationType,
+  destination: string | null | undefined,
+): Contact | null => {
+  if (!destination) return null;
+  let normalized: string;
+  try {
+    normalized = normalizeContactDestination(destinationType, destination);
+  } catch {
+    return null;
+  }
+  return (
+    contacts.find(
+      (item) => item.destinationType === destinationType && item.destination === normalized,
+    ) ?? null
+  );
+};
+
+/** Matches an invoice's decoded `payee` node against saved node-pubkey contacts. */
+export const findContactForPayee = (contacts: Contact[], payee: string | null | undefined) =>
+  findContactByDestination(contacts, "node-pubkey", payee);
+
+const readPayee = (bolt11: string | null | undefined): string | null => {
+  if (!bolt11) return null;
+  try {
+    return parseLightningInvoice(bolt11).payee ?? null;
+  } catch {
+    // BOLT12 invoices and malformed entries can't be decoded locally
+    return null;
+  }
+};
+
+/** Resolves the contact a sent payment went to: an explicit link first, then the payee node. */
+export const findContactForRecord = (
+  contacts: Contact[],
+  links: ContactPaymentLinks,
+  record: HistoryRecord,
+): Contact | null => {
+  if (record.kind !== "payment" || contacts.length === 0) return null;
+  const { payment } = record;
+  const hash = normalizeHash(payment.payment_hash_no_prefix ?? payment.payment_hash ?? "");
+  const linkedId = hash ? links[hash] : undefined;
+  const linked = linkedId ? contacts.find((item) => item.id === linkedId) : undefined;
+  if (linked) return linked;
+  return findContactForPayee(
+    contacts,
+    readPayee(payment.invoice?.bolt11 ?? payment.request?.bolt11 ?? payment.receipt?.bolt11),
+  );
+};
@@ -0,0 +1,201 @@
+import {
+  Contract,
+  uint256,
+  type Abi,
+  type AccountInterface,
+  type BigNumberish,
+  type CairoCustomEnum,
+  type ProviderInterface,
+  type Uint256,
+} from "starknet";
+
+import EscrowVaultArtifact from "../abi/EscrowVault.json";
+import {
+  ESCROW_CLAIM_MARGIN_SECONDS,
+  ESCROW_LOCK_MARGIN_SECONDS,
+  LN_PAY_TIMEOUT_SECONDS,
+} from "../config/constants";
+import { parseUint256 } from "../utils/token/format";
+import { recordPaymentRefund } from "./payments";
+import { executeCallsAndWait, formatRefundCalls } from "./starknetCalls";
+
+export type EscrowPhase = "None" | "Locked" | "Claimed" | "Refunded";
+
+export type EscrowPosition = {
+  phase: EscrowPhase;
+  user: string;
+  amount: bigint;
+  expiresAt: number;
+  lockedAt: number;
+};
+
+export type VaultConfig = {
+  owner: string;
+  protocolOperator: string;
+  protocolTreasury: string;
+  asset: string;
+  expiryWindow: number; // seconds
+  paymentLimit: bigint;
+};
+
+const ESCROW_PHASES: EscrowPhase[] = ["None", "Locked", "Claimed", "Refunded"];
+
+// Shapes starknet.js decodes the vault's `EscrowPosition` and `VaultConfig` structs into
+type RawEscrowPosition = {
+  phase: CairoCustomEnum | BigNumberish;
+  user: BigNumberish;
+  amount: BigNumberish | Uint256;
+  expires_at: BigNumberish;
+  locked_at: BigNumberish;
+};
+
+type RawVaultConfig = {
+  owner: BigNumberish;
+  protocol_operator: BigNumberish;
+  protocol_treasury: BigNumberish;
+  asset: BigNumberish;
+  expiry_window: BigNumberish;
+  payment_limit: BigNumberish | Uint256;
+};
+
+const normalizeHex = (hex: string): string =>
+  hex.startsWith("0x") ? hex : `0x${hex}`;
+
+const getEscrowContract = (provider: ProviderInterface, escrowContractAddress: string) =>
+  new Contract(EscrowVaultArtifact.abi as Abi, escrowContractAddress, provider);
+
+const readEscrowPhase = (phase: RawEscrowPosition["phase"] | undefined): EscrowPhase => {
+  if (phase && typeof phase === "object") {
+    const active = phase.activeVariant();
+    return ESCROW_PHASES.find((name) => name === active) ?? "None";
+  }
+  if (phase === undefined) return "None";
+  return ESCROW_PHASES[Number(phase)] ?? "None";
+};
+
+const toHexAddress = (value: BigNumberish): string => {
+  if (typeof value === "string") return normalizeHex(value).toLowerCase();
+  return `0x${BigInt(value).toString(16)}`;
+};
+
+export const fetchEscrowPosition = async (
+  provider: ProviderInterface,
+  escrowContractAddress: string,
+  paymentHashHex: string,
+): Promise<EscrowPosition> => {
+  const contract = getEscrowContract(provider, escrowContractAddress);
+  const hash = uint256.bnToUint256(BigInt(normalizeHex(paymentHashHex)));
+  const position = (await contract.get_escrow(hash)) as Partial<RawEscrowPosition> | undefined;
+
+  return {
+    phase: readEscrowPhase(position?.phase),
+    user: toHexAddress(position?.user ?? 0),
+    amount: parseUint256(position?.amount ?? 0),
+    expiresAt: Number(position?.expires_at ?? 0),
+    lockedAt: Number(position?.locked_at ?? 0),
+  };
+};
+
+export const fetchVaultConfig = async (
+  provider: ProviderInterface,
+  escrowContractAddress: string,
+): Promise<VaultConfig> => {
+  const contract = getEscrowContract(provider, escrowContractAddress);
+  const config = (await contract.get_config()) as Partial<RawVaultConfig> | undefined;
+
+  return {
+    owner: toHexAddress(config?.owner ?? 0),
+    protocolOperator: toHexAddress(config?.protocol_operator ?? 0),
+    protocolTreasury: toHexAddress(config?.protocol_treasury ?? 0),
+    asset: toHexAddress(config?.asset ?? 0),
+    expiryWindow: Number(config?.expiry_window ?? 0),
+    paymentLimit: parseUint256(config?.payment_limit ?? 0),
+  };
+};
+
+/**
+ * The escrow starts its `expiry_window` when the lock lands, and must outlive the
+ * Lightning payment plus the operator's claim. The invoice in turn must still be
+ * payable once the lock has confirmed. Returns a user-facing reason, or null if compatible.
+ */
+export const checkEscrowExpiryPolicy = ({
+  invoiceExpiresAt,
+  expiryWindow,
+  nowSeconds = Math.floor(Date.now() / 1000),
+}: {
+  invoiceExpiresAt?: number;
+  expiryWindow: number;
+  nowSeconds?: number;
+}): string | null => {
+  const settlementSeconds = LN_PAY_TIMEOUT_SECONDS + ESCROW_CLAIM_MARGIN_SECONDS;
+  if (expiryWindow < settlementSeconds) {
+    return `The escrow window (${expiryWindow}s) is too short to pay and claim safely (needs ${settlementSeconds}s).`;
+  }
+  if (invoiceExpiresAt === undefined) return null;
+  if (invoiceExpiresAt <= nowSeconds) {
+    return "This invoice has expired.";
+  }
+  if (invoiceExpiresAt < nowSeconds + ESCROW_LOCK_MARGIN_SECONDS + LN_PAY_TIMEOUT_SECONDS) {
+    return "This invoice expires before the escrow lock can confirm and the payment complete.";
+  }
+  return null;
+};
+
+export const isEscrowRefundable = (
+  position: EscrowPosition,
+  nowSeconds = Math.floor(Date.now() / 1000),
+): boolean => position.phase === "Locked" && position.expiresAt > 0 && position.expiresAt <= nowSeconds;
+
+export type RefundEscrowPaymentOptions = {
+  account: AccountInterface & { address: string };
+  provider: ProviderInterface;
+  escrowContractAddress: string;
+  paymentHashHex: string;
+  onTransactionSent?: (txHash: string) => void;
+};
+
+export type RefundEscrowPaymentResult = {
+  transactionHash: string;
+  // Set when the refund is final on-chain but the payment history entry could not be updated
+  historyError: string | null;
+};
+
+export const refundEscrowPayment = async ({
+  account,
+  provider,
+  escrowContractAddress,
+  paymentHashHex,
+  onTransactionSent,
+}: RefundEscrowPaymentOptions): Promise<RefundEscrowPaymentResult> => {
+  if (!escrowContractAddress) {
+    throw new Error("Escrow contract address is required");
+  }
+
+  // Confirm on-chain state first so we never send a refund the contract will reject
+  const position = await fetchEscrowPosition(provider, escrowContractAddress, paymentHashHex);
+  if (position.phase !== "Locked") {
+    throw new Error(`Escrow is ${position.phase.toLowerCase()}, nothing to refund`);
+  }
+  if (BigInt(position.user) !== BigInt(account.address)) {
+    throw new Error("Escrow belongs to a different account");
+  }
+  if (!isEscrowRefundable(position)) {
+    throw new Error("Escrow has not expired yet");
+  }
+
+  const { transactionHash } = await executeCallsAndWait(
+    account,
+    provider,
+    formatRefundCalls(escrowContractAddress, normalizeHex(paymentHashHex)),
+    { onSent: onTransactionSent },
+  );
+
+  let historyError: string | null = null;
+  try {
+    await recordPaymentRefund(paymentHashHex, transactionHash);
+  } catch (error) {
+    historyError = error instanceof Error ? error.message : "Unable to record the refund";
+  }
+
+  return { transactionHash, historyError };
+};
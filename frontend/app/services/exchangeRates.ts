@@ -0,0 +1,145 @@
+export const FIAT_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "CHF", "AUD", "JPY"] as const;
+
+export type FiatCurrency = (typeof FIAT_CURRENCIES)[number];
+
+export type ExchangeRateProvider = {
+  id: string;
+  label: string;
+  // Price of one BTC in `currency`
+  fetchBtcPrice: (currency: FiatCurrency) => Promise<number>;
+};
+
+export type ExchangeRate = {
+  currency: FiatCurrency;
+  btcPrice: number;
+  providerId: string;
+  fetchedAt: number; // milliseconds since epoch
+};
+
+const SATS_PER_BTC = 100_000_000;
+
+export const isFiatCurrency = (value: unknown): value is FiatCurrency =>
+  typeof value === "string" && (FIAT_CURRENCIES as readonly string[]).includes(value);
+
+const readPrice = (value: unknown, source: string): number => {
+  const price = typeof value === "string" ? Number(value) : value;
+  if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) {
+    throw new Error(`${source} did not return a BTC price`);
+  }
+  return price;
+};
+
+const readField = (value: unknown, key: string): unknown =>
+  value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+
+const fetchJson = async (url: string, source: string): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: "application/json" } });
+  } catch {
+    throw new Error(`Unable to reach ${source}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${source} error (${response.status})`);
+  }
+  return response.json();
+};
+
+export const coingeckoProvider: ExchangeRateProvider = {
+  id: "coingecko",
+  label: "CoinGecko",
+  fetchBtcPrice: async (currency) => {
+    const vs = currency.toLowerCase();
+    const payload = await fetchJson(
+      `https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=${vs}`,
+      "CoinGecko",
+    );
+    return readPrice(readField(readField(payload, "bitcoin"), vs), "CoinGecko");
+  },
+};
+
+export const mempoolProvider: ExchangeRateProvider = {
+  id: "mempool",
+  label: "mempool.space",
+  fetchBtcPrice: async (currency) => {
+    const payload = await fetchJson("https://mempool.space/api/v1/prices", "mempool.space");
+    return readPrice(readField(payload, currency), "mempool.space");
+  },
+};
+
+/** Fixed prices, for tests, demos and offline builds. */
+export const createStaticRateProvider = (
+  prices: Partial<Record<FiatCurrency, number>>,
+  id = "static",
+): ExchangeRateProvider => ({
+  id,
+  label: "Fixed rates",
+  fetchBtcPrice: async (currency) => readPrice(prices[currency], "Fixed rate table"),
+});
+
+const parseStaticPrices = (raw: string | undefined): Partial<Record<FiatCurrency, number>> | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const providers = new Map<string, ExchangeRateProvider>();
+
+export const registerExchangeRateProvider = (provider: ExchangeRateProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getExchangeRateProviders = (): ExchangeRateProvider[] => [...providers.values()];
+
+export const getExchangeRateProvider = (id: string): ExchangeRateProvider | null =>
+  providers.get(id) ?? null;
+
+registerExchangeRateProvider(coingeckoProvider);
+registerExchangeRateProvider(mempoolProvider);
+
+// e.g. EXPO_PUBLIC_STATIC_BTC_PRICES={"USD":65000,"EUR":60000}
+const staticPrices = parseStaticPrices(process.env.EXPO_PUBLIC_STATIC_BTC_PRICES);
+if (staticPrices) {
+  registerExchangeRateProvider(createStaticRateProvider(staticPrices));
+}
+
+export const DEFAULT_EXCHANGE_RATE_PROVIDER_ID =
+  process.env.EXPO_PUBLIC_EXCHANGE_RATE_PROVIDER || (staticPrices ? "static" : coingeckoProvider.id);
+
+export async function fetchExchangeRate(
+  providerId: string,
+  currency: FiatCurrency,
+): Promise<ExchangeRate> {
+  const provider = getExchangeRateProvider(providerId);
+  if (!provider) {
+    throw new Error(`Unknown exchange rate provider: ${providerId}`);
+  }
+  const btcPrice = await provider.fetchBtcPrice(currency);
+  return { currency, btcPrice, providerId, fetchedAt: Date.now() };
+}
+
+export const satsToFiat = (sats: bigint, rate: ExchangeRate): number =>
+  (Number(sats) / SATS_PER_BTC) * rate.btcPrice;
+
+/** Converts a fiat amount typed by the user into whole sats; null when it isn't a positive number. */
+export const fiatToSats = (amount: string, rate: ExchangeRate): bigint | null => {
+  const trimmed = amount.trim().replace(",", ".");
+  if (!/^\d*(\.\d{0,2})?$/.test(trimmed) || trimmed === "" || trimmed === ".") return null;
+  const value = Number(trimmed);
+  if (!Number.isFinite(value) || value <= 0) return null;
+  const sats = BigInt(Math.round((value / rate.btcPrice) * SATS_PER_BTC));
+  return sats > 0n ? sats : null;
+};
+
+export const formatFiatAmount = (value: number, currency: FiatCurrency): string => {
+  try {
+    return value.toLocaleString(undefined, { style: "currency", currency });
+  } catch {
+    // Older Hermes builds without full Intl support
+    return `${value.toFixed(currency === "JPY" ? 0 : 2)} ${currency}`;
+  }
+};
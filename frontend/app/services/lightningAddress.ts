@@ -0,0 +1,60 @@
+import type { Account } from "starknet";
+
+import { signApiRequest } from "./requestSigning";
+
+export type LightningAddress = {
+  username: string;
+  // username@domain, payable from any LNURL-pay wallet
+  address: string;
+};
+
+const apiUrl = (path: string) => `${process.env.EXPO_PUBLIC_APP_API_URL}${path}`;
+
+const readJson = async (response: Response, fallbackMessage: string) => {
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(payload?.message || payload?.error || fallbackMessage);
+  }
+  return payload;
+};
+
+export const fetchLightningAddress = async (
+  starknetAddress: string,
+): Promise<LightningAddress | null> => {
+  const response = await fetch(apiUrl(`/usernames/${encodeURIComponent(starknetAddress)}`));
+  if (response.status === 404) return null;
+  const payload = await readJson(response, "Unable to load your Lightning Address");
+  return { username: String(payload.username), address: String(payload.lightning_address) };
+};
+
+export const claimLightningAddress = async (
+  account: Account,
+  username: string,
+): Promise<LightningAddress> => {
+  const normalized = username.trim().toLowerCase();
+  const signed = await signApiRequest(account, "claim_username", normalized);
+  const response = await fetch(apiUrl("/usernames"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ username: normalized, ...signed }),
+  });
+  const payload = await readJson(response, "Unable to claim this username");
+  return { username: String(payload.username), address: String(payload.lightning_address) };
+};
+
+export const releaseLightningAddress = async (
+  account: Account,
+  username: string,
+): Promise<void> => {
+  const signed = await signApiRequest(account, "release_username", username);
+  const response = await fetch(apiUrl(`/usernames/${encodeURIComponent(username)}`), {
+    method: "DELETE",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(signed),
+  });
+  await readJson(response, "Unable to release this username");
+};
@@ -1,9 +1,13 @@
 import lightBolt11 from "light-bolt11-decoder";
 import type { AccountInterface, ProviderInterface } from "starknet";
+import { LN_MAX_FEE_PERCENT } from "../config/constants";
 import {
+  estimateCallsFee,
   executeCallsAndWait,
   formatLockForLnPaymentCalls,
+  type CallsFeeEstimate,
 } from "./starknetCalls";
+import { fetchPaymentByHash, type PaymentReceipt, type PaymentRecord } from "./payments";
 
 const MSATS_PER_SAT = 1000n;
 
@@ -30,9 +34,11 @@ const parseNumericValue = (value: NumericValue): bigint | null => {
 
 export type ParsedInvoice = {
   raw: string;
-  amountSats: bigint;
+  // null for amountless (donation / tip) invoices; the payer picks the amount
+  amountSats: bigint | null;
   paymentHash: string;
   description?: string;
+  descriptionHash?: string;
   expiresAt?: number;
   payee?: string;
 };
@@ -77,14 +83,14 @@ export const parseLightningInvoice = (invoice: string): ParsedInvoice => {
     }
   }
 
-  if (amountMsat === null || amountMsat <= 0n) {
-    throw new Error("Invoice is missing a payment amount");
+  if (amountMsat !== null && amountMsat <= 0n) {
+    throw new Error("Invoice has an invalid payment amount");
   }
-  if (amountMsat % MSATS_PER_SAT !== 0n) {
+  if (amountMsat !== null && amountMsat % MSATS_PER_SAT !== 0n) {
     throw new Error("Invoice amount has fractional sats (msats); unsupported in this flow");
   }
 
-  const amountSats = amountMsat / MSATS_PER_SAT;
+  const amountSats = amountMsat !== null ? amountMsat / MSATS_PER_SAT : null;
 
   const paymentHashValue = decoded?.payment_hash;
   const paymentHash = paymentHashValue ? String(paymentHashValue).toLowerCase() : undefined;
@@ -93,6 +99,10 @@ export const parseLightningInvoice = (invoice: string): ParsedInvoice => {
   }
 
   const description = typeof decoded?.description === "string" ? decoded.description : undefined;
+  const descriptionHash =
+    typeof decoded?.description_hash === "string"
+      ? decoded.description_hash.toLowerCase()
+      : undefined;
 
   let expiresAt: number | undefined;
   let timestampSeconds: bigint | null = null;
@@ -124,6 +134,7 @@ export const parseLightningInvoice = (invoice: string): ParsedInvoice => {
     amountSats,
     paymentHash,
     description,
+    descriptionHash,
     expiresAt,
     payee:
       decoded?.payee ||
@@ -137,7 +148,12 @@ export type LockLightningPaymentOptions = {
   account: AccountInterface & { address: string };
   provider: ProviderInterface;
   parsedInvoice: ParsedInvoice;
+  // Required for amountless invoices; must match the invoice amount otherwise
+  amountSats?: bigint;
+  // Quoted Lightning routing fee, locked on top of the invoice amount
+  feeSats?: bigint;
   escrowContractAddress: string;
+  // Highest Starknet network fee the user approved, usually the preflight estimate's maxFee
   maxFee?: bigint;
   onTransactionSent?: (txHash: string) => void;
 };
@@ -147,26 +163,163 @@ export type LockLightningPaymentResult = {
   receipt: any;
 };
 
-const DEFAULT_MAX_FEE = 100_000_000_000_000n;
-
-export const lockLightningPayment = async ({
+const buildLockCalls = ({
   account,
-  provider,
   parsedInvoice,
+  amountSats,
+  feeSats = 0n,
   escrowContractAddress,
-  maxFee = DEFAULT_MAX_FEE,
-  onTransactionSent,
-}: LockLightningPaymentOptions): Promise<LockLightningPaymentResult> => {
+}: Pick<
+  LockLightningPaymentOptions,
+  "account" | "parsedInvoice" | "amountSats" | "feeSats" | "escrowContractAddress"
+>) => {
   if (!escrowContractAddress) {
     throw new Error("Escrow contract address is required");
   }
+  if (amountSats === undefined || amountSats <= 0n) {
+    throw new Error("Enter an amount to pay this invoice");
+  }
+  if (parsedInvoice.amountSats !== null && parsedInvoice.amountSats !== amountSats) {
+    throw new Error("Payment amount does not match the invoice amount");
+  }
+  if (feeSats < 0n) {
+    throw new Error("Routing fee cannot be negative");
+  }
 
-  const calls = formatLockForLnPaymentCalls(
+  return formatLockForLnPaymentCalls(
     escrowContractAddress,
     account.address,
-    parsedInvoice.amountSats,
+    amountSats + feeSats,
     `0x${parsedInvoice.paymentHash}`,
   );
+};
+
+export type RoutingFeeQuote = {
+  quoteId: string;
+  paymentHash: string;
+  amountSats: bigint;
+  feeSats: bigint;
+  totalSats: bigint;
+  source: string;
+  expiresAt: number; // seconds since epoch
+};
+
+export const fetchRoutingFeeQuote = async (
+  bolt11: string,
+  amountSats?: bigint | null,
+): Promise<RoutingFeeQuote> => {
+  const params = new URLSearchParams({ bolt11 });
+  if (amountSats) params.set("amount_sat", amountSats.toString());
+  const response = await fetch(
+    `${process.env.EXPO_PUBLIC_APP_API_URL}/quote?${params.toString()}`,
+  );
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(payload?.message || payload?.error || "Unable to quote the routing fee");
+  }
+
+  return {
+    quoteId: String(payload.quote_id),
+    paymentHash: String(payload.payment_hash),
+    amountSats: BigInt(payload.amount_sats),
+    feeSats: BigInt(payload.fee_sats),
+    totalSats: BigInt(payload.total_sats),
+    source: String(payload.source),
+    expiresAt: Number(payload.expires_at),
+  };
+};
+
+/** Upper bound on what CLN may spend on routing, mirroring the backend's `maxfeepercent`. */
+export const getMaxLightningRoutingFeeSats = (amountSats: bigint): bigint => {
+  if (!Number.isFinite(LN_MAX_FEE_PERCENT) || LN_MAX_FEE_PERCENT <= 0) return 0n;
+  const basisPoints = BigInt(Math.round(LN_MAX_FEE_PERCENT * 100));
+  return (amountSats * basisPoints + 9_999n) / 10_000n;
+};
+
+export type LightningPaymentPreflight = {
+  // null when the account is not deployed yet; it is deployed on first payment
+  networkFee: CallsFeeEstimate | null;
+  routingQuote: RoutingFeeQuote;
+  maxRoutingFeeSats: bigint;
+};
+
+/** Quotes the routing fee for one invoice and checks it against the invoice and the fee limit. */
+export const fetchLockQuote = async (
+  parsedInvoice: ParsedInvoice,
+  amountSats: bigint | undefined,
+): Promise<RoutingFeeQuote> => {
+  const routingQuote = await fetchRoutingFeeQuote(
+    parsedInvoice.raw,
+    parsedInvoice.amountSats === null ? amountSats : null,
+  );
+  if (routingQuote.paymentHash.toLowerCase() !== parsedInvoice.paymentHash.toLowerCase()) {
+    throw new Error("Routing fee quote is for a different invoice");
+  }
+  if (routingQuote.amountSats !== amountSats) {
+    throw new Error("Routing fee quote amount does not match the payment amount");
+  }
+  const maxRoutingFeeSats = getMaxLightningRoutingFeeSats(routingQuote.amountSats);
+  if (routingQuote.feeSats > maxRoutingFeeSats) {
+    throw new Error(
+      `Routing fee of ${routingQuote.feeSats.toString()} sats exceeds the ${LN_MAX_FEE_PERCENT}% limit`,
+    );
+  }
+  return routingQuote;
+};
+
+/**
+ * Re-quotes right before signing the lock, since the approved quote may have expired while the user
+ * confirmed. A fee above the approved one needs a new confirmation, so that case throws.
+ */
+export const requoteBeforeLock = async (
+  parsedInvoice: ParsedInvoice,
+  approved: RoutingFeeQuote,
+): Promise<RoutingFeeQuote> => {
+  const fresh = await fetchLockQuote(parsedInvoice, approved.amountSats);
+  if (fresh.feeSats > approved.feeSats) {
+    throw new Error(
+      `The routing fee rose to ${fresh.feeSats.toString()} sats; review the payment and confirm again`,
+    );
+  }
+  return fresh;
+};
+
+export const preflightLightningPayment = async ({
+  account,
+  provider,
+  parsedInvoice,
+  amountSats = parsedInvoice.amountSats ?? undefined,
+  escrowContractAddress,
+}: Omit<LockLightningPaymentOptions, "feeSats" | "maxFee" | "onTransactionSent">): Promise<LightningPaymentPreflight> => {
+  // Validate before asking the backend for a quote
+  buildLockCalls({ account, parsedInvoice, amountSats, escrowContractAddress });
+
+  const routingQuote = await fetchLockQuote(parsedInvoice, amountSats);
+  const maxRoutingFeeSats = getMaxLightningRoutingFeeSats(routingQuote.amountSats);
+
+  const calls = buildLockCalls({
+    account,
+    parsedInvoice,
+    amountSats,
+    feeSats: routingQuote.feeSats,
+    escrowContractAddress,
+  });
+  const networkFee = await estimateCallsFee(account, provider, calls);
+  return { networkFee, routingQuote, maxRoutingFeeSats };
+};
+
+export const lockLightningPayment = async ({
+  account,
+  provider,
+  parsedInvoice,
+  amountSats = parsedInvoice.amountSats ?? undefined,
+  feeSats,
+  escrowContractAddress,
+  maxFee,
+  onTransactionSent,
+}: LockLightningPaymentOptions): Promise<LockLightningPaymentResult> => {
+  const calls = buildLockCalls({ account, parsedInvoice, amountSats, feeSats, escrowContractAddress });
 
   const { transactionHash, receipt } = await executeCallsAndWait(
     account,
@@ -177,3 +330,168 @@ export const lockLightningPayment = async ({
 
   return { transactionHash, receipt };
 };
+
+export type LightningPaymentProof = {
+  lightning_preimage: string;
+  payment_hash: string;
+};
+
+export type LightningPaymentResponse = {
+  status: string;
+  proof?: LightningPaymentProof;
+  receipt?: PaymentReceipt;
+  // Set when the backend accepted the request asynchronously (HTTP 202)
+  payment_id?: string;
+  status_url?: string;
+};
+
+export type RequestLightningPaymentOptions = {
+  bolt11: string;
+  transactionHash?: string | null;
+  // Only sent for amountless invoices
+  amountSats?: bigint | null;
+  // Routing fee quote the lock's total was taken from
+  quoteId?: string | null;
+  // Return as soon as the backend has verified the lock instead of waiting for the claim
+  async?: boolean;
+};
+
+export const requestLightningPayment = async ({
+  bolt11,
+  transactionHash,
+  amountSats,
+  quoteId,
+  async: asyncMode = false,
+}: RequestLightningPaymentOptions): Promise<LightningPaymentResponse> => {
+  const response = await fetch(process.env.EXPO_PUBLIC_APP_API_URL + "/pay", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      bolt11,
+      ...(transactionHash ? { transaction_hash: transactionHash } : {}),
+      ...(amountSats ? { amount_sat: amountSats.toString() } : {}),
+      ...(quoteId ? { quote_id: quoteId } : {}),
+      ...(asyncMode ? { async: true } : {}),
+    }),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message =
+      payload?.message || payload?.error || "Lightning payment failed";
+    const error = new Error(message);
+    (error as any).status = response.status;
+    (error as any).code = payload?.error;
+    throw error;
+  }
+
+  return payload as LightningPaymentResponse;
+};
+
+export type PaymentProgressStage =
+  | "pending"
+  | "lightning_paid"
+  | "claim_queued"
+  | "claimed"
+  | "refunded"
+  | "failed";
+
+const FAILED_PAYMENT_STATUSES = new Set(["lightning_failed", "claim_failed", "error"]);
+
+export const getPaymentProgressStage = (record: PaymentRecord): PaymentProgressStage => {
+  const status = record.status ?? "";
+  if (status === "claimed" || record.starknet?.status === "claimed") return "claimed";
+  if (status === "refunded" || record.starknet?.status === "refunded") return "refunded";
+  if (FAILED_PAYMENT_STATUSES.has(status)) return "failed";
+  if (status === "claim_queued" || record.starknet?.status === "claim_queued") return "claim_queued";
+  if (status === "awaiting_claim") return "lightning_paid";
+  return "pending";
+};
+
+const readRecordError = (record: PaymentRecord): string => {
+  const error = (record.starknet?.error ?? record.lightning?.error) as
+    | { message?: string }
+    | string
+    | null
+    | undefined;
+  if (typeof error === "string" && error) return error;
+  if (error && typeof error === "object" && error.message) return error.message;
+  return "Lightning payment failed";
+};
+
+const PAYMENT_REFUNDED_CODE = "payment_refunded";
+
+/** True for the error waitForLightningPayment throws when the operator returned the lock instead of paying. */
+export const isPaymentRefundedError = (error: unknown): boolean =>
+  error instanceof Error && (error as any).code === PAYMENT_REFUNDED_CODE;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type WaitForLightningPaymentOptions = {
+  onStage?: (stage: PaymentProgressStage) => void;
+  intervalMs?: number;
+  timeoutMs?: number;
+};
+
+export const waitForLightningPayment = async (
+  paymentHash: string,
+  { onStage, intervalMs = 2_000, timeoutMs = 5 * 60_000 }: WaitForLightningPaymentOptions = {},
+): Promise<LightningPaymentResponse> => {
+  const deadline = Date.now() + timeoutMs;
+  let lastStage: PaymentProgressStage | null = null;
+
+  while (Date.now() < deadline) {
+    let record: PaymentRecord | null = null;
+    try {
+      record = await fetchPaymentByHash(paymentHash);
+    } catch {
+      // Flaky mobile connections are the reason we poll; keep trying until the deadline
+    }
+
+    if (record) {
+      const stage = getPaymentProgressStage(record);
+      if (stage !== lastStage) {
+        lastStage = stage;
+        onStage?.(stage);
+      }
+      if (stage === "failed") {
+        throw new Error(readRecordError(record));
+      }
+      if (stage === "refunded") {
+        const error = new Error("The payment could not be completed; the locked funds were refunded to your wallet");
+        (error as any).code = PAYMENT_REFUNDED_CODE;
+        (error as any).refundTxHash = record.starknet?.refund_tx_hash ?? null;
+        throw error;
+      }
+      if (stage === "claimed") {
+        const preimage = record.lightning?.payment_preimage;
+        return {
+          status: record.lightning?.status || "paid",
+          ...(preimage
+            ? { proof: { lightning_preimage: preimage, payment_hash: record.payment_hash } }
+            : {}),
+          ...(record.receipt ? { receipt: record.receipt } : {}),
+        };
+      }
+    }
+
+    await sleep(intervalMs);
+  }
+
+  throw new Error("Timed out waiting for the payment to settle; it will keep running in the background");
+};
+
+/**
+ * Starts an asynchronous /pay and polls the payment record until it is claimed or fails. `paymentHash`
+ * is the locked hash; BOLT12 invoices can't be decoded here, so callers pass the one they locked.
+ */
+export const payLightningInvoice = async (
+  { paymentHash, ...options }: Omit<RequestLightningPaymentOptions, "async"> & { paymentHash: string },
+  waitOptions: WaitForLightningPaymentOptions = {},
+): Promise<LightningPaymentResponse> => {
+  const accepted = await requestLightningPayment({ ...options, async: true });
+  const normalizedHash = paymentHash.replace(/^0x/i, "").toLowerCase();
+  return waitForLightningPayment(accepted.payment_id ?? `0x${normalizedHash}`, waitOptions);
+};
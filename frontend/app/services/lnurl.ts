@@ -0,0 +1,190 @@
+import { bech32 } from "@scure/base";
+import { sha256, toUtf8Bytes, toUtf8String } from "ethers";
+
+import { parseLightningInvoice, type ParsedInvoice } from "./lightningPayment";
+
+const MSATS_PER_SAT = 1000n;
+const LNURL_BECH32_LIMIT = 2000;
+const LIGHTNING_ADDRESS_PATTERN = /^[a-z0-9._+-]+@[a-z0-9.-]+\.[a-z0-9-]+$/i;
+
+export type LnurlPayRequest = {
+  callback: string;
+  domain: string;
+  metadata: string;
+  minSendableMsat: bigint;
+  maxSendableMsat: bigint;
+  minSendableSats: bigint;
+  maxSendableSats: bigint;
+  commentAllowed: number;
+  description?: string;
+  lightningAddress?: string;
+};
+
+export const isLightningAddress = (value: string): boolean =>
+  LIGHTNING_ADDRESS_PATTERN.test(value.trim());
+
+export const decodeLnurl = (value: string): string => {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (lower.startsWith("lnurlp://")) {
+    const rest = trimmed.slice("lnurlp://".length);
+    const scheme = rest.split(/[/?]/)[0].endsWith(".onion") ? "http" : "https";
+    return `${scheme}://${rest}`;
+  }
+
+  let words: number[];
+  try {
+    ({ words } = bech32.decode(lower as `lnurl1${string}`, LNURL_BECH32_LIMIT));
+  } catch {
+    throw new Error("Invalid LNURL encoding");
+  }
+  return toUtf8String(bech32.fromWords(words));
+};
+
+const lightningAddressToUrl = (address: string): string => {
+  const [username, domain] = address.trim().toLowerCase().split("@");
+  const scheme = domain.endsWith(".onion") ? "http" : "https";
+  return `${scheme}://${domain}/.well-known/lnurlp/${username}`;
+};
+
+const readDomain = (url: string): string => {
+  const match = url.match(/^[a-z]+:\/\/([^/?#]+)/i);
+  if (!match) {
+    throw new Error("LNURL does not point to a valid URL");
+  }
+  return match[1].toLowerCase();
+};
+
+const fetchLnurlJson = async (url: string): Promise<Record<string, unknown>> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: "application/json" } });
+  } catch {
+    throw new Error("Unable to reach the LNURL service");
+  }
+  const body: unknown = await response.json().catch(() => null);
+  const payload = body && typeof body === "object" ? (body as Record<string, unknown>) : null;
+  if (payload && String(payload.status).toUpperCase() === "ERROR") {
+    const reason = typeof payload.reason === "string" ? payload.reason : "";
+    throw new Error(reason || "LNURL service returned an error");
+  }
+  if (!response.ok || !payload) {
+    throw new Error(`LNURL service error (${response.status})`);
+  }
+  return payload;
+};
+
+const parseMetadata = (metadata: string) => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(metadata);
+  } catch {
+    throw new Error("LNURL metadata is not valid JSON");
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("LNURL metadata must be an array");
+  }
+
+  const find = (type: string): string | undefined => {
+    const entry = entries.find(
+      (item: unknown) => Array.isArray(item) && item[0] === type && typeof item[1] === "string",
+    ) as [string, string] | undefined;
+    return entry?.[1];
+  };
+
+  return {
+    description: find("text/plain"),
+    identifier: find("text/identifier") ?? find("text/email"),
+  };
+};
+
+const toBigInt = (value: unknown, field: string): bigint => {
+  if (typeof value === "number" && Number.isFinite(value)) return BigInt(Math.trunc(value));
+  if (typeof value === "string" && /^\d+$/.test(value.trim())) return BigInt(value.trim());
+  throw new Error(`LNURL pay request has an invalid ${field}`);
+};
+
+export const resolveLnurlPayRequest = async (input: string): Promise<LnurlPayRequest> => {
+  const lightningAddress = isLightningAddress(input) ? input.trim().toLowerCase() : undefined;
+  const url = lightningAddress ? lightningAddressToUrl(lightningAddress) : decodeLnurl(input);
+  const domain = readDomain(url);
+
+  const payload = await fetchLnurlJson(url);
+  if (payload.tag !== "payRequest") {
+    throw new Error("LNURL is not a pay request");
+  }
+  if (typeof payload.callback !== "string" || !payload.callback) {
+    throw new Error("LNURL pay request is missing a callback");
+  }
+  if (typeof payload.metadata !== "string") {
+    throw new Error("LNURL pay request is missing metadata");
+  }
+
+  const { description, identifier } = parseMetadata(payload.metadata);
+  if (lightningAddress && identifier && identifier.toLowerCase() !== lightningAddress) {
+    throw new Error("Lightning address does not match the pay request metadata");
+  }
+
+  const minSendableMsat = toBigInt(payload.minSendable, "minSendable");
+  const maxSendableMsat = toBigInt(payload.maxSendable, "maxSendable");
+  // The escrow only holds whole sats, so round the bounds inwards.
+  const minSendableSats = (minSendableMsat + MSATS_PER_SAT - 1n) / MSATS_PER_SAT;
+  const maxSendableSats = maxSendableMsat / MSATS_PER_SAT;
+  if (minSendableSats <= 0n || minSendableSats > maxSendableSats) {
+    throw new Error("LNURL pay request has no payable amount range");
+  }
+
+  return {
+    callback: payload.callback,
+    domain,
+    metadata: payload.metadata,
+    minSendableMsat,
+    maxSendableMsat,
+    minSendableSats,
+    maxSendableSats,
+    commentAllowed: typeof payload.commentAllowed === "number" ? payload.commentAllowed : 0,
+    description,
+    lightningAddress,
+  };
+};
+
+export const fetchLnurlInvoice = async (
+  request: LnurlPayRequest,
+  amountSats: bigint,
+  comment?: string,
+): Promise<ParsedInvoice> => {
+  if (amountSats < request.minSendableSats || amountSats > request.maxSendableSats) {
+    throw new Error(
+      `Amount must be between ${request.minSendableSats.toString()} and ${request.maxSendableSats.toString()} sats`,
+    );
+  }
+
+  const amountMsat = amountSats * MSATS_PER_SAT;
+  const separator = request.callback.includes("?") ? "&" : "?";
+  let url = `${request.callback}${separator}amount=${amountMsat.toString()}`;
+  const trimmedComment = comment?.trim();
+  if (trimmedComment && request.commentAllowed > 0) {
+    url += `&comment=${encodeURIComponent(trimmedComment.slice(0, request.commentAllowed))}`;
+  }
+
+  const payload = await fetchLnurlJson(url);
+  if (typeof payload.pr !== "string" || !payload.pr) {
+    throw new Error("LNURL service did not return an invoice");
+  }
+
+  const parsed = parseLightningInvoice(payload.pr);
+  if (parsed.amountSats !== amountSats) {
+    throw new Error("LNURL invoice amount does not match the requested amount");
+  }
+
+  const expectedHash = sha256(toUtf8Bytes(request.metadata)).slice(2).toLowerCase();
+  if (parsed.descriptionHash !== expectedHash) {
+    throw new Error("LNURL invoice description hash does not match the pay request metadata");
+  }
+
+  return {
+    ...parsed,
+    description: parsed.description ?? request.description,
+  };
+};
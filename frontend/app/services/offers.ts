@@ -0,0 +1,132 @@
+import type { ParsedInvoice } from "./lightningPayment";
+
+export type Bolt12Offer = {
+  offer: string;
+  offerId: string | null;
+  description: string | null;
+  issuer: string | null;
+  // null when the payer chooses the amount
+  amountSats: bigint | null;
+  expiresAt: number | null;
+};
+
+const apiUrl = (path: string) => `${process.env.EXPO_PUBLIC_APP_API_URL}${path}`;
+
+const readJson = async (response: Response, fallbackMessage: string) => {
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(payload?.message || payload?.error || fallbackMessage);
+  }
+  return payload;
+};
+
+// BOLT12 is TLV-encoded and signed, so decoding is left to the backend's CLN node
+export const decodeBolt12Offer = async (offer: string): Promise<Bolt12Offer> => {
+  const response = await fetch(
+    apiUrl(`/offer/decode?${new URLSearchParams({ offer }).toString()}`),
+  );
+  const payload = await readJson(response, "Unable to decode the offer");
+  return {
+    offer: String(payload.offer),
+    offerId: payload.offer_id ?? null,
+    description: payload.description ?? null,
+    issuer: payload.issuer ?? null,
+    amountSats: payload.amount_sats !== null && payload.amount_sats !== undefined
+      ? BigInt(payload.amount_sats)
+      : null,
+    expiresAt: payload.expires_at ?? null,
+  };
+};
+
+/**
+ * Fetches a concrete BOLT12 invoice for the offer. The result is locked and paid like a
+ * BOLT11 invoice; its `raw` is the `lni1…` string the backend pays.
+ */
+export const fetchBolt12OfferInvoice = async (
+  offer: Bolt12Offer,
+  amountSats: bigint,
+): Promise<ParsedInvoice> => {
+  if (offer.amountSats !== null && offer.amountSats !== amountSats) {
+    throw new Error("Amount does not match the offer amount");
+  }
+
+  const response = await fetch(apiUrl("/offer/invoice"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      offer: offer.offer,
+      ...(offer.amountSats === null ? { amount_sat: amountSats.toString() } : {}),
+    }),
+  });
+  const payload = await readJson(response, "Unable to fetch an invoice for this offer");
+
+  const paymentHash = String(payload.payment_hash ?? "").toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(paymentHash)) {
+    throw new Error("Offer invoice is missing a payment hash");
+  }
+  if (BigInt(payload.amount_sats) !== amountSats) {
+    throw new Error("Offer invoice amount does not match the requested amount");
+  }
+
+  return {
+    raw: String(payload.invoice),
+    amountSats,
+    paymentHash,
+    description: payload.description ?? offer.description ?? undefined,
+    expiresAt: payload.expires_at ?? undefined,
+    payee: payload.payee ?? undefined,
+  };
+};
+
+export type ReceiveOffer = {
+  offerId: string;
+  bolt12: string;
+  description: string;
+  // null when the payer chooses the amount
+  amountSats: bigint | null;
+  createdAt: number | null;
+};
+
+const toReceiveOffer = (payload: unknown): ReceiveOffer => {
+  const record = payload && typeof payload === "object" ? (payload as Record<string, unknown>) : {};
+  const { offer_id: offerId, bolt12, description, amount_sats: amount, created_at: createdAt } = record;
+  if (typeof offerId !== "string" || typeof bolt12 !== "string") {
+    throw new Error("Offer response is missing the offer");
+  }
+  return {
+    offerId,
+    bolt12,
+    description: typeof description === "string" ? description : "",
+    amountSats: typeof amount === "string" || typeof amount === "number" ? BigInt(amount) : null,
+    createdAt: typeof createdAt === "number" ? createdAt : null,
+  };
+};
+
+export const fetchReceiveOffers = async (starknetAddress: string): Promise<ReceiveOffer[]> => {
+  const response = await fetch(apiUrl(`/offers/user/${encodeURIComponent(starknetAddress)}`));
+  const payload = await readJson(response, "Unable to load your offers");
+  return Array.isArray(payload.offers) ? payload.offers.map(toReceiveOffer) : [];
+};
+
+/** Creates a reusable BOLT12 offer; every payment to it is credited to `starknetAddress`. */
+export const createReceiveOffer = async (
+  starknetAddress: string,
+  description: string,
+  amountSats: bigint | null,
+): Promise<ReceiveOffer> => {
+  const response = await fetch(apiUrl("/offer"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      starknet_address: starknetAddress,
+      description,
+      ...(amountSats !== null ? { amount_sat: amountSats.toString() } : {}),
+    }),
+  });
+  const payload = await readJson(response, "Unable to create the offer");
+  return toReceiveOffer(payload);
+};
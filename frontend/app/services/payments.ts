@@ -1,3 +1,7 @@
+import type { Account } from 'starknet';
+
+import { signApiRequest } from './requestSigning';
+
 export type PaymentRecord = {
   payment_hash: string;
   payment_hash_no_prefix?: string;
@@ -46,6 +50,9 @@ export type PaymentRecord = {
     failed_at?: number;
     failed_at_iso?: string;
     error?: unknown;
+    refunded_at?: number;
+    refunded_at_iso?: string;
+    refund_tx_hash?: string | null;
   } | null;
   request?: {
     received_at?: number;
@@ -53,7 +60,22 @@ export type PaymentRecord = {
     bolt11?: string | null;
     transaction_hash?: string | null;
   } | null;
-  history?: Array<Record<string, unknown>>;
+  receipt?: PaymentReceipt | null;
+  history?: Record<string, unknown>[];
+};
+
+// Written by the backend once the Lightning payment settles; the preimage is the proof of payment.
+export type PaymentReceipt = {
+  version: number;
+  payment_hash: string;
+  preimage: string | null;
+  preimage_verified?: boolean;
+  amount_sats: string | null;
+  bolt11?: string | null;
+  payer?: string | null;
+  lock_tx_hash?: string | null;
+  claim_tx_hash?: string | null;
+  paid_at?: string | null;
 };
 
 export type InvoiceRecord = {
@@ -64,8 +86,11 @@ export type InvoiceRecord = {
   amount_sats?: string | number | null;
   amount_msat?: string | number | null;
   bolt11?: string | null;
+  memo?: string | null;
+  amountless?: boolean | null;
   status?: string | null;
   created_at?: number | null;
+  expires_at?: number | null;
   paid_at?: number | null;
   updated_at?: number | null;
   updated_at_iso?: string | null;
@@ -145,6 +170,42 @@ export async function fetchPaymentsByAddress(address: string): Promise<PaymentRe
     .sort((a, b) => (b.updated_at ?? 0) - (a.updated_at ?? 0));
 }
 
+export async function fetchPaymentByHash(paymentHash: string): Promise<PaymentRecord | null> {
+  const base = normalizeApiBase();
+  const hash = paymentHash.startsWith('0x') ? paymentHash : `0x${paymentHash}`;
+  const endpoint = `${base}/payment/${encodeURIComponent(hash)}`;
+
+  const response = await fetch(endpoint);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    const message = (payload && (payload.message || payload.error)) || 'Unable to fetch payment.';
+    throw new Error(message);
+  }
+
+  const payload = (await response.json().catch(() => null)) as
+    | { payment?: PaymentRecord }
+    | null;
+  return payload?.payment ?? null;
+}
+
+export async function recordPaymentRefund(paymentHash: string, transactionHash: string) {
+  const base = normalizeApiBase();
+  const hash = paymentHash.startsWith('0x') ? paymentHash : `0x${paymentHash}`;
+  const endpoint = `${base}/payments/${encodeURIComponent(hash)}/refund`;
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ transaction_hash: transactionHash }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    const message = (payload && (payload.message || payload.error)) || 'Unable to record refund.';
+    throw new Error(message);
+  }
+}
+
 function normalizeInvoiceAmount(value?: string | number | null): string | null {
   if (value === undefined || value === null) return null;
   if (typeof value === 'number') return Number.isFinite(value) ? Math.floor(value).toString() : null;
@@ -277,3 +338,87 @@ export async function fetchPaymentHistoryByAddress(address: string): Promise<His
     return bTs - aTs;
   });
 }
+
+export type InvoiceLifecycleState = 'unpaid' | 'paid' | 'credited' | 'expired' | 'cancelled';
+
+export type InvoiceStatus = {
+  label: string;
+  status: string;
+  state: InvoiceLifecycleState;
+  amount_sats?: string | null;
+  amountless?: boolean;
+  amount_received_sats?: string | null;
+  paid_at?: number | null;
+  expires_at?: number | null;
+  memo?: string | null;
+  payment_hash?: string | null;
+  credit?: {
+    status?: string | null;
+    tx_hash?: string | null;
+    attempts?: number | null;
+    credited_at_iso?: string | null;
+    last_error?: unknown;
+  } | null;
+};
+
+export async function fetchInvoiceStatus(label: string): Promise<InvoiceStatus> {
+  const base = normalizeApiBase();
+  const endpoint = `${base}/invoice/${encodeURIComponent(label)}`;
+
+  const response = await fetch(endpoint);
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = (payload && (payload.message || payload.error)) || 'Unable to fetch invoice status.';
+    throw new Error(message);
+  }
+  return payload as InvoiceStatus;
+}
+
+export type CancelPaymentResult = {
+  payment_hash: string;
+  status: string;
+  refund_tx_hash?: string | null;
+  already_refunded?: boolean;
+};
+
+// Asks the operator to refund a lock whose Lightning payment failed, without waiting for expiry.
+// Signed by the account that made the lock; the backend refuses anyone else.
+export async function cancelFailedPayment(
+  account: Account,
+  paymentHash: string,
+): Promise<CancelPaymentResult> {
+  const base = normalizeApiBase();
+  const hash = (paymentHash.startsWith('0x') ? paymentHash : `0x${paymentHash}`).toLowerCase();
+  const endpoint = `${base}/pay/${encodeURIComponent(hash)}/cancel`;
+  const signed = await signApiRequest(account, 'cancel_payment', hash);
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(signed),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = (payload && (payload.message || payload.error)) || 'Unable to cancel payment.';
+    throw new Error(message);
+  }
+  return payload as CancelPaymentResult;
+}
+
+/** Cancels an unpaid invoice on the node; the backend checks the signature against the invoice owner. */
+export async function cancelReceiveInvoice(account: Account, label: string): Promise<void> {
+  const base = normalizeApiBase();
+  const endpoint = `${base}/invoice/${encodeURIComponent(label)}`;
+  const signed = await signApiRequest(account, 'cancel_invoice', label);
+
+  const response = await fetch(endpoint, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(signed),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    const message = (payload && (payload.message || payload.error)) || 'Unable to cancel invoice.';
+    throw new Error(message);
+  }
+}
@@ -0,0 +1,115 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export type PendingPaymentStage = "locking" | "locked" | "paying" | "failed";
+
+export type PendingPayment = {
+  paymentHash: string;
+  bolt11: string;
+  amountSats: string;
+  amountless: boolean;
+  // Routing fee quote the lock was made against; /pay needs it to accept the fee
+  quoteId?: string | null;
+  lockTxHash: string | null;
+  stage: PendingPaymentStage;
+  expiresAt: number | null; // escrow expiry, seconds since epoch
+  error?: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const STORAGE_PREFIX = "paysat.pendingPayments.";
+
+const storageKey = (accountAddress: string) =>
+  `${STORAGE_PREFIX}${accountAddress.toLowerCase()}`;
+
+const normalizeHash = (paymentHash: string) =>
+  (paymentHash.startsWith("0x") ? paymentHash.slice(2) : paymentHash).toLowerCase();
+
+export async function loadPendingPayments(accountAddress: string): Promise<PendingPayment[]> {
+  if (!accountAddress) return [];
+  const raw = await AsyncStorage.getItem(storageKey(accountAddress));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item): item is PendingPayment =>
+        !!item && typeof item === "object" && typeof item.paymentHash === "string",
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Read-modify-write updates for one account run one after another, so payments
+// resumed in parallel don't overwrite each other's entries
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function queueWrite<T>(accountAddress: string, task: () => Promise<T>): Promise<T> {
+  const key = storageKey(accountAddress);
+  const run = (writeQueues.get(key) ?? Promise.resolve()).catch(() => undefined).then(task);
+  writeQueues.set(key, run);
+  return run;
+}
+
+async function writePendingPayments(accountAddress: string, payments: PendingPayment[]) {
+  if (payments.length === 0) {
+    await AsyncStorage.removeItem(storageKey(accountAddress));
+    return;
+  }
+  await AsyncStorage.setItem(storageKey(accountAddress), JSON.stringify(payments));
+}
+
+export function savePendingPayment(
+  accountAddress: string,
+  payment: Omit<PendingPayment, "createdAt" | "updatedAt">,
+): Promise<PendingPayment> {
+  return queueWrite(accountAddress, async () => {
+    const payments = await loadPendingPayments(accountAddress);
+    const hash = normalizeHash(payment.paymentHash);
+    const now = Date.now();
+    const existing = payments.find((item) => item.paymentHash === hash);
+    const next: PendingPayment = {
+      ...payment,
+      paymentHash: hash,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await writePendingPayments(accountAddress, [
+      ...payments.filter((item) => item.paymentHash !== hash),
+      next,
+    ]);
+    return next;
+  });
+}
+
+export function updatePendingPayment(
+  accountAddress: string,
+  paymentHash: string,
+  patch: Partial<Omit<PendingPayment, "paymentHash" | "createdAt">>,
+): Promise<PendingPayment | null> {
+  return queueWrite(accountAddress, async () => {
+    const payments = await loadPendingPayments(accountAddress);
+    const hash = normalizeHash(paymentHash);
+    let updated: PendingPayment | null = null;
+    const next = payments.map((item) => {
+      if (item.paymentHash !== hash) return item;
+      updated = { ...item, ...patch, updatedAt: Date.now() };
+      return updated;
+    });
+    if (!updated) return null;
+    await writePendingPayments(accountAddress, next);
+    return updated;
+  });
+}
+
+export function removePendingPayment(accountAddress: string, paymentHash: string): Promise<void> {
+  return queueWrite(accountAddress, async () => {
+    const payments = await loadPendingPayments(accountAddress);
+    const hash = normalizeHash(paymentHash);
+    await writePendingPayments(
+      accountAddress,
+      payments.filter((item) => item.paymentHash !== hash),
+    );
+  });
+}
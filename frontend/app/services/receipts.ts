@@ -0,0 +1,75 @@
+import { getBytes, sha256 } from "ethers";
+
+import type { LightningPaymentProof } from "./lightningPayment";
+import type { PaymentReceipt, PaymentRecord } from "./payments";
+
+const HASH_PATTERN = /^(0x)?[0-9a-f]{64}$/i;
+
+const withPrefix = (hex: string) =>
+  (hex.startsWith("0x") ? hex : `0x${hex}`).toLowerCase();
+
+/** A Lightning payment is proven when sha256(preimage) equals the payment hash. */
+export const verifyPaymentPreimage = (
+  preimageHex: string | null | undefined,
+  paymentHashHex: string | null | undefined,
+): boolean => {
+  if (!preimageHex || !paymentHashHex) return false;
+  if (!HASH_PATTERN.test(preimageHex) || !HASH_PATTERN.test(paymentHashHex)) return false;
+  return sha256(getBytes(withPrefix(preimageHex))) === withPrefix(paymentHashHex);
+};
+
+export type BuildPaymentReceiptOptions = {
+  proof: LightningPaymentProof;
+  amountSats: bigint | string | null;
+  bolt11?: string | null;
+  payer?: string | null;
+  lockTxHash?: string | null;
+};
+
+export const buildPaymentReceipt = ({
+  proof,
+  amountSats,
+  bolt11 = null,
+  payer = null,
+  lockTxHash = null,
+}: BuildPaymentReceiptOptions): PaymentReceipt => ({
+  version: 1,
+  payment_hash: withPrefix(proof.payment_hash),
+  preimage: withPrefix(proof.lightning_preimage),
+  amount_sats: amountSats === null ? null : amountSats.toString(),
+  bolt11,
+  payer,
+  lock_tx_hash: lockTxHash,
+  paid_at: new Date().toISOString(),
+});
+
+/** Older records predate stored receipts; rebuild one from the Lightning details when possible. */
+export const receiptFromPaymentRecord = (record: PaymentRecord): PaymentReceipt | null => {
+  if (record.receipt?.preimage) return record.receipt;
+
+  const preimage = record.lightning?.payment_preimage;
+  if (!preimage) return null;
+
+  return {
+    version: 1,
+    payment_hash: record.payment_hash,
+    preimage,
+    amount_sats: record.lightning?.amount_sats ?? record.invoice?.amount_sats ?? null,
+    bolt11: record.invoice?.bolt11 ?? record.request?.bolt11 ?? null,
+    payer: record.escrow?.user ?? null,
+    lock_tx_hash: record.request?.transaction_hash ?? record.escrow?.starknet_tx_hash ?? null,
+    claim_tx_hash: record.starknet?.tx_hash ?? null,
+    paid_at: record.lightning?.completed_at_iso ?? null,
+  };
+};
+
+/** JSON for sharing with support; `preimage_verified` reflects the check done on this device. */
+export const formatReceiptJson = (receipt: PaymentReceipt): string =>
+  JSON.stringify(
+    {
+      ...receipt,
+      preimage_verified: verifyPaymentPreimage(receipt.preimage, receipt.payment_hash),
+    },
+    null,
+    2,
+  );
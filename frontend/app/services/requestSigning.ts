@@ -0,0 +1,53 @@
+import { stark, type Account, type TypedData } from "starknet";
+
+export type SignedRequestFields = {
+  starknet_address: string;
+  timestamp: number;
+  signature: string[];
+};
+
+// Must match buildSignedRequestTypedData in the backend's lib/requestAuth.js
+const buildSignedRequestTypedData = (
+  action: string,
+  subject: string,
+  timestamp: number,
+  chainId: string,
+): TypedData => ({
+  types: {
+    StarknetDomain: [
+      { name: "name", type: "shortstring" },
+      { name: "version", type: "shortstring" },
+      { name: "chainId", type: "shortstring" },
+      { name: "revision", type: "shortstring" },
+    ],
+    Request: [
+      { name: "action", type: "shortstring" },
+      { name: "subject", type: "string" },
+      { name: "timestamp", type: "u128" },
+    ],
+  },
+  primaryType: "Request",
+  domain: { name: "PaySat", version: "1", chainId, revision: "1" },
+  message: { action, subject, timestamp: String(timestamp) },
+});
+
+/**
+ * Signs an account-scoped backend request (e.g. claiming a username) so the server can check,
+ * through the account contract, that the caller controls the address. Needs a deployed account.
+ */
+export const signApiRequest = async (
+  account: Account,
+  action: string,
+  subject: string,
+): Promise<SignedRequestFields> => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const chainId = await account.getChainId();
+  const signature = await account.signMessage(
+    buildSignedRequestTypedData(action, subject, timestamp, chainId),
+  );
+  return {
+    starknet_address: account.address,
+    timestamp,
+    signature: stark.formatSignature(signature),
+  };
+};
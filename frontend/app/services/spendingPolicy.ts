@@ -0,0 +1,167 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as LocalAuthentication from "expo-local-authentication";
+
+export type SpendingPolicy = {
+  // Payments above this need a biometric / device PIN confirmation; null disables the check
+  confirmAboveSats: bigint | null;
+  // Cap on what can be locked in any rolling 24 hour window; null means unlimited
+  dailyLimitSats: bigint | null;
+};
+
+type SpendEntry = {
+  paymentHash: string;
+  amountSats: string;
+  at: number; // milliseconds since epoch
+};
+
+export const SPENDING_WINDOW_MS = 24 * 60 * 60_000;
+
+const POLICY_PREFIX = "paysat.spendingPolicy.";
+const LEDGER_PREFIX = "paysat.spendingLedger.";
+
+export const DEFAULT_SPENDING_POLICY: SpendingPolicy = {
+  confirmAboveSats: null,
+  dailyLimitSats: null,
+};
+
+const policyKey = (accountAddress: string) =>
+  `${POLICY_PREFIX}${accountAddress.toLowerCase()}`;
+const ledgerKey = (accountAddress: string) =>
+  `${LEDGER_PREFIX}${accountAddress.toLowerCase()}`;
+
+const normalizeHash = (paymentHash: string) =>
+  (paymentHash.startsWith("0x") ? paymentHash.slice(2) : paymentHash).toLowerCase();
+
+const parseSats = (value: unknown): bigint | null => {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) return null;
+  return BigInt(value);
+};
+
+export async function loadSpendingPolicy(accountAddress: string): Promise<SpendingPolicy> {
+  if (!accountAddress) return DEFAULT_SPENDING_POLICY;
+  const raw = await AsyncStorage.getItem(policyKey(accountAddress));
+  if (!raw) return DEFAULT_SPENDING_POLICY;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      confirmAboveSats: parseSats(parsed?.confirmAboveSats),
+      dailyLimitSats: parseSats(parsed?.dailyLimitSats),
+    };
+  } catch {
+    return DEFAULT_SPENDING_POLICY;
+  }
+}
+
+async function saveSpendingPolicy(accountAddress: string, policy: SpendingPolicy) {
+  await AsyncStorage.setItem(
+    policyKey(accountAddress),
+    JSON.stringify({
+      confirmAboveSats: policy.confirmAboveSats?.toString() ?? null,
+      dailyLimitSats: policy.dailyLimitSats?.toString() ?? null,
+    }),
+  );
+}
+
+async function loadLedger(accountAddress: string, now = Date.now()): Promise<SpendEntry[]> {
+  const raw = await AsyncStorage.getItem(ledgerKey(accountAddress));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (entry): entry is SpendEntry =>
+        !!entry &&
+        typeof entry.paymentHash === "string" &&
+        parseSats(entry.amountSats) !== null &&
+        typeof entry.at === "number" &&
+        now - entry.at < SPENDING_WINDOW_MS,
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** Sats locked by this account in the last 24 hours. */
+export async function getSpentInWindow(accountAddress: string, now = Date.now()): Promise<bigint> {
+  if (!accountAddress) return 0n;
+  const ledger = await loadLedger(accountAddress, now);
+  return ledger.reduce((sum, entry) => sum + BigInt(entry.amountSats), 0n);
+}
+
+export async function recordSpend(accountAddress: string, paymentHash: string, amountSats: bigint) {
+  const hash = normalizeHash(paymentHash);
+  const ledger = await loadLedger(accountAddress);
+  await AsyncStorage.setItem(
+    ledgerKey(accountAddress),
+    JSON.stringify([
+      ...ledger.filter((entry) => entry.paymentHash !== hash),
+      { paymentHash: hash, amountSats: amountSats.toString(), at: Date.now() },
+    ]),
+  );
+}
+
+// Refunded escrows give the funds back, so they stop counting towards the limit
+export async function releaseSpend(accountAddress: string, paymentHash: string) {
+  const hash = normalizeHash(paymentHash);
+  const ledger = await loadLedger(accountAddress);
+  await AsyncStorage.setItem(
+    ledgerKey(accountAddress),
+    JSON.stringify(ledger.filter((entry) => entry.paymentHash !== hash)),
+  );
+}
+
+const confirmWithDeviceAuth = async (promptMessage: string) => {
+  const securityLevel = await LocalAuthentication.getEnrolledLevelAsync();
+  if (securityLevel === LocalAuthentication.SecurityLevel.NONE) {
+    throw new Error("Set up a screen lock or biometrics on this device first");
+  }
+  // Falls back to the device PIN / passcode when biometrics are unavailable or fail
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    cancelLabel: "Cancel",
+  });
+  if (!result.success) {
+    throw new Error(
+      result.error === "user_cancel" || result.error === "system_cancel"
+        ? "Confirmation was cancelled"
+        : "Confirmation failed",
+    );
+  }
+};
+
+const isLooser = (current: bigint | null, next: bigint | null) =>
+  current !== null && (next === null || next > current);
+
+/** Saves a new policy; relaxing either limit needs the same confirmation as a large payment. */
+export async function updateSpendingPolicy(accountAddress: string, next: SpendingPolicy) {
+  const current = await loadSpendingPolicy(accountAddress);
+  if (
+    isLooser(current.confirmAboveSats, next.confirmAboveSats) ||
+    isLooser(current.dailyLimitSats, next.dailyLimitSats)
+  ) {
+    await confirmWithDeviceAuth("Confirm to relax your spending limits");
+  }
+  await saveSpendingPolicy(accountAddress, next);
+}
+
+/**
+ * Enforces the account's spending policy before funds are locked: rejects payments that
+ * would exceed the rolling daily limit and asks for biometrics / PIN above the threshold.
+ */
+export async function authorizeSpend(accountAddress: string, amountSats: bigint) {
+  const [policy, spentSats] = await Promise.all([
+    loadSpendingPolicy(accountAddress),
+    getSpentInWindow(accountAddress),
+  ]);
+
+  if (policy.dailyLimitSats !== null && spentSats + amountSats > policy.dailyLimitSats) {
+    const remaining = policy.dailyLimitSats > spentSats ? policy.dailyLimitSats - spentSats : 0n;
+    throw new Error(
+      `This payment exceeds your daily limit; ${remaining.toString()} of ${policy.dailyLimitSats.toString()} sats left in the last 24 hours`,
+    );
+  }
+
+  if (policy.confirmAboveSats !== null && amountSats > policy.confirmAboveSats) {
+    await confirmWithDeviceAuth(`Approve payment of ${amountSats.toString()} sats`);
+  }
+}
@@ -1,5 +1,12 @@
-import { uint256, type Call, type AccountInterface, type ProviderInterface } from "starknet";
-import { BTC_TOKEN_ADDRESS } from "../config/constants";
+import {
+  num,
+  uint256,
+  type Call,
+  type AccountInterface,
+  type ProviderInterface,
+  type ResourceBounds,
+} from "starknet";
+import { BTC_TOKEN_ADDRESS, ETH_TOKEN_ADDRESS, STRK_TOKEN_ADDRESS } from "../config/constants";
 
 const DEFAULT_MAX_FEE = 100_000_000_000_000n;
 
@@ -18,41 +25,190 @@ const getExecutionFailure = (receipt: any) => {
   return accepted ? null : executionStatus || finalityStatus || "unknown";
 };
 
-export const formatLockForLnPaymentCalls = (
+export type LnPaymentLock = {
+  amountSats: bigint;
+  paymentHashHex: string;
+};
+
+// One approve for the summed amount, then a lock per payment hash, so a batch is a single signature.
+export const formatBatchLockForLnPaymentCalls = (
   escrowContractAddress: string,
   payerAddress: string,
-  amountSats: bigint,
-  paymentHashHex: string,
+  locks: LnPaymentLock[],
 ): Call[] => {
-  const amount = uint256.bnToUint256(amountSats);
-  const paymentHash = uint256.bnToUint256(BigInt(normalizeHex(paymentHashHex)));
+  if (locks.length === 0) {
+    throw new Error("At least one payment is required");
+  }
+
+  const total = locks.reduce((sum, lock) => sum + lock.amountSats, 0n);
+  const totalAmount = uint256.bnToUint256(total);
 
   const approveCall: Call = {
     contractAddress: BTC_TOKEN_ADDRESS,
     entrypoint: "approve",
     calldata: [
       escrowContractAddress,
-      amount.low,
-      amount.high,
+      totalAmount.low,
+      totalAmount.high,
     ],
   } as Call;
 
-  const lockCall: Call = {
+  const lockCalls = locks.map(({ amountSats, paymentHashHex }) => {
+    const amount = uint256.bnToUint256(amountSats);
+    const paymentHash = uint256.bnToUint256(BigInt(normalizeHex(paymentHashHex)));
+    return {
+      contractAddress: escrowContractAddress,
+      entrypoint: "lock_for_ln_payment",
+      calldata: [
+        payerAddress,
+        amount.low,
+        amount.high,
+        paymentHash.low,
+        paymentHash.high,
+      ],
+    } as Call;
+  });
+
+  return [approveCall, ...lockCalls];
+};
+
+export const formatLockForLnPaymentCalls = (
+  escrowContractAddress: string,
+  payerAddress: string,
+  amountSats: bigint,
+  paymentHashHex: string,
+): Call[] =>
+  formatBatchLockForLnPaymentCalls(escrowContractAddress, payerAddress, [
+    { amountSats, paymentHashHex },
+  ]);
+
+export const formatRefundCalls = (
+  escrowContractAddress: string,
+  paymentHashHex: string,
+): Call[] => {
+  const paymentHash = uint256.bnToUint256(BigInt(normalizeHex(paymentHashHex)));
+
+  const refundCall: Call = {
     contractAddress: escrowContractAddress,
-    entrypoint: "lock_for_ln_payment",
+    entrypoint: "refund",
     calldata: [
-      payerAddress,
-      amount.low,
-      amount.high,
       paymentHash.low,
       paymentHash.high,
     ],
   } as Call;
 
-  return [approveCall, lockCall];
+  return [refundCall];
+};
+
+export const isAccountDeployed = async (
+  provider: ProviderInterface,
+  accountAddress: string,
+): Promise<boolean> => {
+  try {
+    await provider.getClassAt(accountAddress);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export type CallsFeeEstimate = {
+  overallFee: bigint;
+  // Upper bound starknet.js will sign for, including its safety margin
+  maxFee: bigint;
+  feeTokenSymbol: "STRK" | "ETH";
+  feeTokenAddress: string;
+  feeTokenBalance: bigint;
+  canCoverFee: boolean;
+  // Per-resource limits from the estimate; signing with them caps what the sequencer may charge
+  resourceBounds: ResourceBounds;
+};
+
+const readTokenBalance = async (
+  provider: ProviderInterface,
+  tokenAddress: string,
+  accountAddress: string,
+): Promise<bigint> => {
+  const result = await provider.callContract({
+    contractAddress: tokenAddress,
+    entrypoint: "balance_of",
+    calldata: [accountAddress],
+  });
+  const [low = "0", high = "0"] = result;
+  return uint256.uint256ToBN({ low, high });
+};
+
+const describeSimulationError = (error: unknown): string => {
+  const raw = error instanceof Error ? error.message : String(error);
+  const reason = raw.match(/Failure reason:\s*(.+)/)?.[1] ?? raw.match(/revert_error["':\s]+([^"\n]+)/)?.[1];
+  return (reason ?? raw).slice(0, 200);
+};
+
+/**
+ * Estimates the calls against the latest state. Throws when the simulation reverts;
+ * returns null when the account is not deployed yet and so cannot be simulated.
+ */
+export const estimateCallsFee = async (
+  account: AccountInterface & { address: string },
+  provider: ProviderInterface,
+  calls: Call[],
+): Promise<CallsFeeEstimate | null> => {
+  if (!(await isAccountDeployed(provider, account.address))) {
+    return null;
+  }
+
+  let estimate;
+  try {
+    estimate = await account.estimateInvokeFee(calls);
+  } catch (error) {
+    throw new Error(`Transaction simulation failed: ${describeSimulationError(error)}`);
+  }
+
+  const feeTokenSymbol = estimate.unit === "WEI" ? "ETH" : "STRK";
+  const feeTokenAddress = feeTokenSymbol === "ETH" ? ETH_TOKEN_ADDRESS : STRK_TOKEN_ADDRESS;
+  const feeTokenBalance = await readTokenBalance(provider, feeTokenAddress, account.address);
+  const maxFee = estimate.suggestedMaxFee > estimate.overall_fee
+    ? estimate.suggestedMaxFee
+    : estimate.overall_fee;
+
+  return {
+    overallFee: estimate.overall_fee,
+    maxFee,
+    feeTokenSymbol,
+    feeTokenAddress,
+    feeTokenBalance,
+    canCoverFee: feeTokenBalance >= maxFee,
+    resourceBounds: estimate.resourceBounds,
+  };
+};
+
+type ResourceBound = { max_amount: string; max_price_per_unit: string };
+
+/**
+ * Lowers the per-unit price limits proportionally until the worst case the bounds allow
+ * (the sum of amount × price over every resource) fits within maxFee.
+ */
+const capResourceBounds = (bounds: ResourceBounds, maxFee: bigint): ResourceBounds => {
+  const entries = Object.entries(bounds) as [string, ResourceBound][];
+  const worstCase = entries.reduce(
+    (sum, [, bound]) => sum + BigInt(bound.max_amount) * BigInt(bound.max_price_per_unit),
+    0n,
+  );
+  if (worstCase <= maxFee) return bounds;
+  return Object.fromEntries(
+    entries.map(([resource, bound]) => [
+      resource,
+      {
+        max_amount: bound.max_amount,
+        max_price_per_unit: num.toHex((BigInt(bound.max_price_per_unit) * maxFee) / worstCase),
+      },
+    ]),
+  ) as ResourceBounds;
 };
 
 export type ExecuteAndWaitOptions = {
+  // When set, the calls are re-estimated right before signing, rejected if the fee exceeds it,
+  // and signed with resource bounds that cannot charge more than it
   maxFee?: bigint;
   onSent?: (txHash: string) => void;
 };
@@ -66,17 +222,10 @@ export const executeCallsAndWait = async (
   account: AccountInterface & { address: string },
   provider: ProviderInterface,
   calls: Call[],
-  { maxFee = DEFAULT_MAX_FEE, onSent }: ExecuteAndWaitOptions = {},
+  { maxFee, onSent }: ExecuteAndWaitOptions = {},
 ): Promise<ExecuteAndWaitResult> => {
   // Ensure account is deployed before executing any calls
-  const isDeployed = await (async () => {
-    try {
-      await provider.getClassAt(account.address);
-      return true;
-    } catch {
-      return false;
-    }
-  })();
+  const isDeployed = await isAccountDeployed(provider, account.address);
 
   if (!isDeployed) {
     // Try to auto-deploy a standard account (defaults to ArgentX for mainnet/sepolia, devnet variant otherwise)
@@ -130,9 +279,26 @@ export const executeCallsAndWait = async (
     }
   }
 
-  // Don't pass partial tx details to avoid V3 resource bounds errors like
-  // "missing field 'L1_DATA_GAS'". Let starknet.js choose the right version.
-  const { transaction_hash } = await account.execute(calls);
+  let resourceBounds: ResourceBounds | undefined;
+  if (maxFee !== undefined) {
+    const estimate = await estimateCallsFee(account, provider, calls);
+    if (!estimate) {
+      throw new Error("Unable to estimate the network fee for the approved maximum");
+    }
+    if (estimate.overallFee > maxFee) {
+      throw new Error(
+        `Network fee of ${estimate.overallFee.toString()} exceeds the approved maximum of ${maxFee.toString()}`,
+      );
+    }
+    resourceBounds = capResourceBounds(estimate.resourceBounds, maxFee);
+  }
+
+  // Bounds come whole from the estimate, so every resource the node expects is present;
+  // partial V3 details fail with errors like "missing field 'L1_DATA_GAS'".
+  const { transaction_hash } = await account.execute(
+    calls,
+    resourceBounds ? { resourceBounds } : undefined,
+  );
   if (onSent) onSent(transaction_hash);
 
   const receipt = await provider.waitForTransaction(transaction_hash);
@@ -0,0 +1,148 @@
+export const AMOUNT_UNITS = ["btc", "sats", "bits"] as const;
+
+export type AmountUnit = (typeof AMOUNT_UNITS)[number];
+
+// Digits after the decimal point when an amount in sats is shown in each unit
+const UNIT_DECIMALS: Record<AmountUnit, number> = {
+  btc: 8,
+  bits: 2,
+  sats: 0,
+};
+
+export const AMOUNT_UNIT_LABELS: Record<AmountUnit, string> = {
+  btc: "BTC",
+  bits: "bits",
+  sats: "sats",
+};
+
+export const isAmountUnit = (value: unknown): value is AmountUnit =>
+  typeof value === "string" && (AMOUNT_UNITS as readonly string[]).includes(value);
+
+type LocaleSeparators = { group: string; decimal: string };
+
+const separatorsCache = new Map<string, LocaleSeparators>();
+
+// Read back from the platform's number formatting so grouping follows the device locale
+const getLocaleSeparators = (locale?: string): LocaleSeparators => {
+  const key = locale ?? "";
+  const cached = separatorsCache.get(key);
+  if (cached) return cached;
+  let separators: LocaleSeparators = { group: ",", decimal: "." };
+  try {
+    const sample = (12345.6).toLocaleString(locale);
+    const match = sample.match(/^12(\D*)345(\D)6$/);
+    if (match) separators = { group: match[1], decimal: match[2] };
+  } catch {
+    // Keep the defaults when Intl is unavailable
+  }
+  separatorsCache.set(key, separators);
+  return separators;
+};
+
+const groupDigits = (digits: string, group: string) =>
+  group ? digits.replace(/\B(?=(\d{3})+(?!\d))/g, group) : digits;
+
+export type FormatAmountOptions = {
+  prefix?: string;
+  // Append the unit label (default true)
+  withUnit?: boolean;
+  // Thousands separators (default true); off for values placed back into inputs
+  grouping?: boolean;
+  locale?: string;
+};
+
+const toSats = (value: bigint | string | number | null | undefined): bigint | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") return Number.isInteger(value) ? BigInt(value) : null;
+  return /^-?\d+$/.test(value) ? BigInt(value) : null;
+};
+
+/**
+ * Formats an amount held in sats in the given unit. BTC and bits drop trailing zeros,
+ * so 150000 sats is "0.0015 BTC" or "1,500 bits".
+ */
+export function formatAmount(
+  value: bigint | string | number | null | undefined,
+  unit: AmountUnit,
+  opts: FormatAmountOptions = {},
+): string {
+  const sats = toSats(value);
+  if (sats === null) {
+    if (typeof value === "string" && value) return value;
+    return "—";
+  }
+
+  const { group, decimal } =
+    opts.grouping === false ? { group: "", decimal: "." } : getLocaleSeparators(opts.locale);
+  const decimals = UNIT_DECIMALS[unit];
+  const negative = sats < 0n;
+  const abs = negative ? -sats : sats;
+  const base = 10n ** BigInt(decimals);
+  const whole = groupDigits((abs / base).toString(), group);
+  const fraction = decimals > 0
+    ? (abs % base).toString().padStart(decimals, "0").replace(/0+$/, "")
+    : "";
+
+  const number = `${negative ? "-" : ""}${whole}${fraction ? `${decimal}${fraction}` : ""}`;
+  const withUnit = opts.withUnit === false ? number : `${number} ${AMOUNT_UNIT_LABELS[unit]}`;
+  return `${opts.prefix ?? ""}${withUnit}`;
+}
+
+// Removes group separators only where they split the digits into valid thousands
+// groups ("12,345,678"); anything else ("1,2,3") returns null
+const ungroupDigits = (digits: string, group: string): string | null => {
+  if (!group || !digits.includes(group)) return digits;
+  const [lead, ...rest] = digits.split(group);
+  if (!/^\d{1,3}$/.test(lead) || !rest.every((part) => /^\d{3}$/.test(part))) return null;
+  return lead + rest.join("");
+};
+
+/**
+ * Parses a user-typed amount in the given unit into sats. Accepts the locale's decimal
+ * separator or ".", and group separators only between whole thousands groups. Where ","
+ * is the group separator a lone comma that can't be grouping ("0,5") is read as the
+ * decimal point. Returns null for anything that isn't a whole number of sats.
+ */
+export function parseAmount(input: string, unit: AmountUnit, locale?: string): bigint | null {
+  const { group, decimal } = getLocaleSeparators(locale);
+  let normalized: string | null = input.trim().replace(/\s/g, "");
+  if (decimal !== "." && normalized.includes(decimal)) {
+    // e.g. "1.234,5" in de-DE
+    const [whole, ...fraction] = normalized.split(decimal);
+    if (fraction.length !== 1) return null;
+    const ungrouped = ungroupDigits(whole, group);
+    normalized = ungrouped === null ? null : `${ungrouped}.${fraction[0]}`;
+  } else if (group === "," && normalized.includes(",")) {
+    // "." is always accepted as the decimal point, so only the whole part can be grouped
+    const pointIndex = normalized.indexOf(".");
+    const whole = pointIndex >= 0 ? normalized.slice(0, pointIndex) : normalized;
+    const ungrouped = ungroupDigits(whole, group);
+    if (ungrouped !== null) {
+      normalized = ungrouped + normalized.slice(whole.length);
+    } else {
+      normalized = pointIndex < 0 && normalized.split(",").length === 2
+        ? normalized.replace(",", ".")
+        : null;
+    }
+  }
+  if (normalized === null) return null;
+
+  const decimals = UNIT_DECIMALS[unit];
+  const pattern = decimals > 0 ? new RegExp(`^\\d*(\\.\\d{0,${decimals}})?$`) : /^\d+$/;
+  if (!normalized || normalized === "." || !pattern.test(normalized)) return null;
+
+  const [whole, fraction = ""] = normalized.split(".");
+  return (
+    BigInt(whole || "0") * 10n ** BigInt(decimals) +
+    BigInt((fraction + "0".repeat(decimals)).slice(0, decimals) || "0")
+  );
+}
+
+export const amountInputKeyboard = (unit: AmountUnit) =>
+  UNIT_DECIMALS[unit] > 0 ? "decimal-pad" : "number-pad";
+
+export const describeAmountPrecision = (unit: AmountUnit) =>
+  UNIT_DECIMALS[unit] > 0
+    ? `Enter a valid ${AMOUNT_UNIT_LABELS[unit]} amount (up to ${UNIT_DECIMALS[unit]} decimals)`
+    : "Enter a whole number of sats";
@@ -0,0 +1,55 @@
+import * as Linking from "expo-linking";
+
+export const APP_LINK_SCHEME = "paysat";
+
+export type DeepLinkAction =
+  | { kind: "pay"; request: string }
+  | { kind: "receive"; amountSats: bigint | null };
+
+// Schemes other apps use to hand over a payment request; parsePaymentUri understands all of them
+const PAYMENT_SCHEMES = ["lightning:", "bitcoin:", "lnurlp:"];
+
+const readQueryValue = (value: string | string[] | undefined): string | null => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === "string" && first.trim() ? first.trim() : null;
+};
+
+/**
+ * Maps an incoming URL to an in-app action:
+ * - `lightning:…` / `bitcoin:…` / `lnurlp://…` and `paysat://pay?request=…` open the pay screen
+ * - `paysat://invoice?amount_sat=…` opens the receive card
+ * Returns null for anything else so the router can handle it as usual.
+ */
+export const parseDeepLink = (url: string): DeepLinkAction | null => {
+  const trimmed = url.trim();
+  const lower = trimmed.toLowerCase();
+  if (PAYMENT_SCHEMES.some((scheme) => lower.startsWith(scheme))) {
+    return { kind: "pay", request: trimmed };
+  }
+  if (!lower.startsWith(`${APP_LINK_SCHEME}:`)) return null;
+
+  const { hostname, path, queryParams } = Linking.parse(trimmed);
+  // paysat://invoice parses as a hostname, paysat:///invoice as a path
+  const route = (hostname || path || "").replace(/^\/+|\/+$/g, "").toLowerCase();
+
+  if (route === "pay") {
+    const request = readQueryValue(queryParams?.request) ?? readQueryValue(queryParams?.invoice);
+    return request ? { kind: "pay", request } : null;
+  }
+
+  if (route === "invoice" || route === "receive") {
+    const amount = readQueryValue(queryParams?.amount_sat);
+    return {
+      kind: "receive",
+      amountSats: amount && /^\d+$/.test(amount) && BigInt(amount) > 0n ? BigInt(amount) : null,
+    };
+  }
+
+  return null;
+};
+
+// `id` tells apart two arrivals of the same link
+export type DeepLink = DeepLinkAction & { id: number };
+
+/** Router path that carries a recognised link to the home screen, which acts on it. */
+export const deepLinkRoute = (url: string) => `/?link=${encodeURIComponent(url)}`;
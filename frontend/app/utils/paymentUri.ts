@@ -0,0 +1,112 @@
+export type PaymentTarget =
+  | { kind: "bolt11"; invoice: string }
+  | { kind: "offer"; offer: string }
+  | { kind: "lnurl"; lnurl: string }
+  | { kind: "lightning-address"; address: string };
+
+const BOLT11_PREFIX = /^ln(bc|tb|bcrt|sb|tbs)[0-9]*[munp]?1/i;
+const BOLT12_OFFER_PREFIX = /^lno1/i;
+const LNURL_BECH32_PREFIX = /^lnurl1/i;
+const LNURL_SCHEME_PREFIX = /^lnurlp:\/\//i;
+const LIGHTNING_ADDRESS_PATTERN = /^[a-z0-9._+-]+@[a-z0-9.-]+\.[a-z0-9-]+$/i;
+
+const stripScheme = (value: string, scheme: string): string | null => {
+  const lower = value.toLowerCase();
+  if (lower.startsWith(`${scheme}://`)) return value.slice(scheme.length + 3);
+  if (lower.startsWith(`${scheme}:`)) return value.slice(scheme.length + 1);
+  return null;
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+};
+
+const readQueryParam = (query: string, name: string): string | null => {
+  for (const pair of query.split("&")) {
+    if (!pair) continue;
+    const [rawKey, ...rest] = pair.split("=");
+    if (safeDecode(rawKey).toLowerCase() === name) {
+      return safeDecode(rest.join("="));
+    }
+  }
+  return null;
+};
+
+// Bech32 strings are case-insensitive but must not mix cases; QR codes use
+// uppercase because it encodes more compactly in alphanumeric mode.
+const normalizeBech32 = (value: string): string => value.toLowerCase();
+
+const parseBareTarget = (value: string): PaymentTarget | null => {
+  if (BOLT11_PREFIX.test(value)) {
+    return { kind: "bolt11", invoice: normalizeBech32(value) };
+  }
+  if (BOLT12_OFFER_PREFIX.test(value)) {
+    return { kind: "offer", offer: normalizeBech32(value) };
+  }
+  if (LNURL_BECH32_PREFIX.test(value)) {
+    return { kind: "lnurl", lnurl: normalizeBech32(value) };
+  }
+  if (LNURL_SCHEME_PREFIX.test(value)) {
+    return { kind: "lnurl", lnurl: value };
+  }
+  if (LIGHTNING_ADDRESS_PATTERN.test(value)) {
+    return { kind: "lightning-address", address: value.toLowerCase() };
+  }
+  return null;
+};
+
+const parseBip21 = (body: string): PaymentTarget => {
+  const queryIndex = body.indexOf("?");
+  const query = queryIndex >= 0 ? body.slice(queryIndex + 1) : "";
+  // BOLT12 offers ride in their own `lno` parameter
+  const lightning = readQueryParam(query, "lightning") ?? readQueryParam(query, "lno");
+  if (!lightning) {
+    throw new Error("On-chain bitcoin payments are not supported; the QR code has no Lightning invoice");
+  }
+  const target = parseBareTarget(lightning.trim());
+  if (!target) {
+    throw new Error("The bitcoin URI contains an unrecognised Lightning payment");
+  }
+  return target;
+};
+
+/**
+ * Normalises anything a user can paste or scan (raw BOLT11, BOLT12 offers, `lightning:` URIs,
+ * BIP21 unified QRs, LNURL and Lightning addresses) into a single payment target.
+ */
+export const parsePaymentUri = (input: string): PaymentTarget => {
+  const trimmed = input.trim().replace(/\s+/g, "");
+  if (!trimmed) {
+    throw new Error("Payment request is empty");
+  }
+
+  const bitcoinBody = stripScheme(trimmed, "bitcoin");
+  if (bitcoinBody !== null) {
+    return parseBip21(bitcoinBody);
+  }
+
+  const lightningBody = stripScheme(trimmed, "lightning");
+  const candidate = lightningBody !== null ? safeDecode(lightningBody) : trimmed;
+  const target = parseBareTarget(candidate);
+  if (!target) {
+    throw new Error("Unrecognised payment request");
+  }
+  return target;
+};
+
+export const getPaymentTargetValue = (target: PaymentTarget): string => {
+  switch (target.kind) {
+    case "bolt11":
+      return target.invoice;
+    case "offer":
+      return target.offer;
+    case "lnurl":
+      return target.lnurl;
+    case "lightning-address":
+      return target.address;
+  }
+};
@@ -1,4 +1,5 @@
 import type { HistoryRecord, InvoiceRecord } from "../services/payments";
+import { formatAmount, type AmountUnit } from "./amountFormat";
 
 const STATUS_COLORS: Record<string, string> = {
   claimed: "#047857",
@@ -13,6 +14,7 @@ const STATUS_COLORS: Record<string, string> = {
   unpaid: "#0f172a",
   pending: "#0f172a",
   credited: "#047857",
+  refunded: "#475569",
   expired: "#b91c1c",
   cancelled: "#b91c1c",
   canceled: "#b91c1c",
@@ -23,25 +25,14 @@ const INVOICE_STATUS_ALIASES: Record<string, string> = {
   unknown: "pending",
 };
 
-export function formatSatsValue(value?: string | null, opts?: { prefix?: string }): string {
+export function formatSatsValue(
+  value?: string | null,
+  opts?: { prefix?: string; unit?: AmountUnit },
+): string {
   if (!value) return "—";
   const normalized = String(value);
   if (!/^\d+$/.test(normalized)) return normalized;
-  let result = "";
-  let group = 0;
-  for (let i = normalized.length - 1; i >= 0; i -= 1) {
-    result = normalized[i] + result;
-    group += 1;
-    if (group === 3 && i !== 0) {
-      result = `,${result}`;
-      group = 0;
-    }
-  }
-  const formatted = `${result} sats`;
-  if (opts?.prefix) {
-    return `${opts.prefix}${formatted}`;
-  }
-  return formatted;
+  return formatAmount(normalized, opts?.unit ?? "sats", { prefix: opts?.prefix });
 }
 
 export function formatPaymentUpdatedAt(updatedAt?: number): string {
@@ -155,3 +146,36 @@ export function getHistoryIdentifier(record: HistoryRecord): string {
   if (payment.payment_hash_no_prefix) return `0x${payment.payment_hash_no_prefix}`;
   return "";
 }
+
+// Statuses where the operator already holds (or is claiming) the preimage, so a refund would race the claim.
+const NON_REFUNDABLE_STATUSES = new Set(["claimed", "claim_queued", "awaiting_claim", "refunded"]);
+
+/** Local hint only; the refund action re-reads `get_escrow` before sending anything. */
+export function isRefundCandidate(record: HistoryRecord, nowSeconds = Math.floor(Date.now() / 1000)): boolean {
+  if (record.kind !== "payment") return false;
+  const payment = record.payment;
+  if (payment.status && NON_REFUNDABLE_STATUSES.has(payment.status)) return false;
+  if (payment.starknet?.status === "refunded") return false;
+  const expiresAt = Number(payment.escrow?.expires_at ?? 0);
+  return Number.isFinite(expiresAt) && expiresAt > 0 && expiresAt <= nowSeconds;
+}
+
+/** Unpaid invoices that have not expired yet; the backend re-checks CLN before deleting. */
+export function isCancellableInvoice(record: HistoryRecord, nowSeconds = Math.floor(Date.now() / 1000)): boolean {
+  if (record.kind !== "invoice") return false;
+  const invoice = record.invoice;
+  if (invoice.status !== "unpaid") return false;
+  const expiresAt = Number(invoice.expires_at ?? 0);
+  return !Number.isFinite(expiresAt) || expiresAt <= 0 || expiresAt > nowSeconds;
+}
+
+export function formatCountdown(secondsLeft: number): string {
+  if (!Number.isFinite(secondsLeft) || secondsLeft <= 0) return "expired";
+  const total = Math.floor(secondsLeft);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${pad(minutes)}:${pad(seconds)}`;
+}